@@ -1,74 +1,128 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import Sidebar from './components/Sidebar';
 import Chat from './components/Chat';
-import { MenuIcon, AlertTriangleIcon, ClipboardIcon, CheckIcon, TerminalIcon, DockerIcon, DesktopIcon } from './components/icons';
-import { OllamaService } from './services/ollamaService';
-import type { OllamaModel, ChatMessage, OllamaModelInfo } from './types';
+import ArenaView from './components/ArenaView';
+import ModelManagerView from './components/ModelManagerView';
+import ModelfileView from './components/ModelfileView';
+import ModelCatalogView from './components/ModelCatalogView';
+import McpServersView from './components/McpServersView';
+import type { MessageFocusRequest } from './components/Chat';
+import ConnectionDiagnostics from './components/ConnectionDiagnostics';
+import HostAuthPrompt from './components/HostAuthPrompt';
+import { MenuIcon } from './components/icons';
+import { isAbortError } from './services/ollamaService';
+import { createProvider } from './services/chatProvider';
+import { AuthenticationError, NetworkError, OllamaError } from './services/errors';
+import { useLocalStorage } from './hooks/useLocalStorage';
+import { useConversations, DEFAULT_CONVERSATION_TITLE } from './hooks/useConversations';
+import { useHostProfiles } from './hooks/useHostProfiles';
+import { usePullQueue } from './hooks/usePullQueue';
+import { useModelFeatures } from './hooks/useModelFeatures';
+import { useToolCalling } from './hooks/useToolCalling';
+import { useMcpServers } from './hooks/useMcpServers';
+import { toOllamaTool } from './services/browserTools';
+import { compactOptions } from './utils/modelParameters';
+import { createId } from './utils/id';
+import { mergeProfiles } from './utils/profiles';
+import { describeError } from './utils/errorHelp';
+import { getModelFeatures, hasCapability } from './utils/modelCapabilities';
+import { cancelOpenToolCalls, normalizeToolArguments, updateToolCall } from './utils/toolCalls';
+import { appendMessage, emptyTree, getActivePath, getActiveThread, selectBranch, updateNodeMessage } from './utils/messageTree';
+import type { OllamaModel, ChatMessage, OllamaModelInfo, OllamaOptions, OllamaResponseStats, OllamaToolCall, AssistantProfile, HostAuth, HostProfile, KeepAlive, ToolCallRecord, ToolRound } from './types';
 
-function useLocalStorage<T,>(key: string, initialValue: T): [T, (value: T) => void] {
-  const [storedValue, setStoredValue] = useState<T>(() => {
-    try {
-      const item = window.localStorage.getItem(key);
-      return item ? JSON.parse(item) : initialValue;
-    } catch (error) {
-      console.error(error);
-      return initialValue;
-    }
-  });
+const TITLE_MAX_LENGTH = 40;
+// Tool-calling rounds per reply before the model must answer without tools.
+const MAX_TOOL_ROUNDS = 8;
 
-  const setValue = (value: T) => {
-    try {
-      const valueToStore = value instanceof Function ? value(storedValue) : value;
-      setStoredValue(valueToStore);
-      window.localStorage.setItem(key, JSON.stringify(valueToStore));
-    } catch (error) {
-      console.error(error);
-    }
-  };
-
-  return [storedValue, setValue];
-}
+type MainView = 'chat' | 'arena' | 'models' | 'modelfile' | 'catalog' | 'mcp';
 
+const titleFromMessage = (message: string): string => {
+  const firstLine = message.trim().split('\n')[0];
+  return firstLine.length > TITLE_MAX_LENGTH ? `${firstLine.slice(0, TITLE_MAX_LENGTH)}…` : firstLine;
+};
 
 const App: React.FC = () => {
   // Get default Ollama host from config or fallback to localhost
   const defaultOllamaHost = (window as any).APP_CONFIG?.ollamaHost || 'http://localhost:11434';
-  const [ollamaHost, setOllamaHost] = useLocalStorage<string>('ollamaHost', defaultOllamaHost);
+  const {
+    hostProfiles,
+    activeHost,
+    activeAuth,
+    hostAuth,
+    setAuthForHost,
+    setActiveHostId,
+    saveHostProfile,
+    deleteHostProfile,
+  } = useHostProfiles(defaultOllamaHost);
   const [models, setModels] = useState<OllamaModel[]>([]);
   const [selectedModel, setSelectedModel] = useLocalStorage<string>('selectedModel', '');
   const [selectedModelInfo, setSelectedModelInfo] = useState<OllamaModelInfo | null>(null);
   const [isModelInfoLoading, setIsModelInfoLoading] = useState(false);
-  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const {
+    conversations,
+    activeConversation,
+    setActiveConversationId,
+    createConversation,
+    importConversations,
+    updateConversation,
+    renameConversation,
+    duplicateConversation,
+    deleteConversation,
+  } = useConversations(selectedModel);
+  const [profiles, setProfiles] = useLocalStorage<AssistantProfile[]>('assistantProfiles', []);
+  const [keepAlive, setKeepAlive] = useLocalStorage<KeepAlive | null>('keepAlive', null);
   const [isLoading, setIsLoading] = useState(false);
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [mainView, setMainView] = useState<MainView>('chat');
+  const [error, setError] = useState<OllamaError | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const [focusRequest, setFocusRequest] = useState<MessageFocusRequest | null>(null);
+
+  const thread = useMemo(() => (activeConversation ? getActiveThread(activeConversation) : []), [activeConversation]);
+  const generationOptions = activeConversation?.options ?? {};
+  const systemPrompt = activeConversation?.systemPrompt ?? '';
+
+  const setGenerationOptions = (options: OllamaOptions) => {
+    if (!activeConversation) return;
+    updateConversation(activeConversation.id, c => ({ ...c, options }));
+  };
+
+  const setSystemPrompt = (prompt: string) => {
+    if (!activeConversation) return;
+    updateConversation(activeConversation.id, c => ({ ...c, systemPrompt: prompt }));
+  };
 
   const fetchModels = useCallback(async () => {
     setError(null);
     try {
-      const service = new OllamaService(ollamaHost);
+      const service = createProvider(activeHost, activeAuth);
       const data = await service.listModels();
       setModels(data.models);
       if (data.models.length > 0 && !data.models.some(m => m.name === selectedModel)) {
-        setSelectedModel(data.models[0].name);
+        const fallback = data.models.find(m => m.name === activeHost.defaultModel) ?? data.models[0];
+        setSelectedModel(fallback.name);
       } else if (data.models.length === 0) {
         setSelectedModel('');
       }
     } catch (err) {
-      setError(`Failed to connect to Ollama at '${ollamaHost}'.`);
+      setError(err instanceof OllamaError ? err : new NetworkError(activeHost.url));
       console.error(err);
       setModels([]);
       setSelectedModel('');
     }
-  }, [ollamaHost, selectedModel, setSelectedModel]);
+  }, [activeHost, activeAuth, selectedModel, setSelectedModel]);
 
   useEffect(() => {
     fetchModels();
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [ollamaHost]);
+  }, [activeHost, activeAuth]);
+
+  const { jobs: pullJobs, enqueue: enqueuePull, cancel: cancelPull, clearFinished: clearFinishedPulls } = usePullQueue(hostProfiles, hostAuth, fetchModels);
   
   useEffect(() => {
-    if (!selectedModel) {
+    const service = createProvider(activeHost, activeAuth);
+    // Only Ollama hosts can describe their models.
+    if (!selectedModel || !service.getModelInfo) {
         setSelectedModelInfo(null);
         return;
     }
@@ -76,9 +130,8 @@ const App: React.FC = () => {
     const fetchModelInfo = async () => {
         setIsModelInfoLoading(true);
         try {
-            const service = new OllamaService(ollamaHost);
-            const info = await service.getModelInfo(selectedModel);
-            setSelectedModelInfo(info);
+            const info = await service.getModelInfo?.(selectedModel);
+            setSelectedModelInfo(info ?? null);
         } catch (err) {
             console.error("Failed to fetch model info:", err);
             setSelectedModelInfo(null); // Clear info on error
@@ -88,270 +141,337 @@ const App: React.FC = () => {
     };
 
     fetchModelInfo();
-  }, [selectedModel, ollamaHost]);
+  }, [selectedModel, activeHost, activeAuth]);
 
-  const handleSendMessage = useCallback(async (message: string, images?: string[]) => {
-    if (!selectedModel) {
-      const tempError = { role: 'assistant' as const, content: 'Error: Please select a model from the sidebar first.' };
-      setMessages(prev => [...prev, tempError]);
-      return;
+  const modelFeatures = useModelFeatures(activeHost, activeAuth, models);
+  // The freshly loaded /api/show wins over the cache, e.g. right after a model was re-pulled.
+  const selectedFeatures = useMemo(
+    () => (selectedModelInfo ? getModelFeatures(selectedModelInfo) : modelFeatures[selectedModel] ?? null),
+    [selectedModelInfo, modelFeatures, selectedModel]
+  );
+  const mcp = useMcpServers();
+  const { activeTools, executeToolCall, decide: decideToolCall, ...toolSettings } = useToolCalling(mcp.tools);
+  const imagesUnsupported = !!selectedFeatures && !hasCapability(selectedFeatures, 'vision');
+
+  // Switching conversations brings back the host and model it was last run with.
+  useEffect(() => {
+    const hostId = activeConversation?.hostId;
+    const switchesHost = !!hostId && hostId !== activeHost.id && hostProfiles.some(h => h.id === hostId);
+    if (switchesHost) {
+      setActiveHostId(hostId);
     }
-    
-    const newUserMessage: ChatMessage = { role: 'user', content: message };
-    if (images) {
-      newUserMessage.images = images;
+    // The model list still belongs to the old host; fetchModels falls back if the model is missing there.
+    const model = activeConversation?.model;
+    if (model && (switchesHost || models.length === 0 || models.some(m => m.name === model))) {
+      setSelectedModel(model);
     }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [activeConversation?.id]);
 
-    const newMessages: ChatMessage[] = [...messages, newUserMessage];
-    setMessages(newMessages);
+  // Streams a new assistant reply as a child of `parentId`, with `history` as the context sent to the model.
+  const generateReply = useCallback(async (conversationId: string, parentId: string, history: ChatMessage[], model: string) => {
+    const replyId = createId();
+    updateConversation(conversationId, c =>
+      appendMessage(c, parentId, { role: 'assistant', content: '', createdAt: Date.now(), model }, replyId)
+    );
     setIsLoading(true);
     setError(null);
 
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
+    const features = modelFeatures[model] ?? (model === selectedModel ? selectedFeatures : null);
+    let rounds: ToolRound[] = [];
+    const setRounds = (next: ToolRound[]) => {
+      rounds = next;
+      updateConversation(conversationId, c => updateNodeMessage(c, replyId, m => ({ ...m, toolRounds: next })));
+    };
+
     try {
-      const service = new OllamaService(ollamaHost);
-      setMessages(prev => [...prev, { role: 'assistant', content: '' }]);
-
-      await service.streamChat(selectedModel, newMessages, (chunk) => {
-        setMessages(prev => {
-          const lastMsgIndex = prev.length - 1;
-          const updatedMessages = [...prev];
-          updatedMessages[lastMsgIndex] = {
-            ...updatedMessages[lastMsgIndex],
-            content: updatedMessages[lastMsgIndex].content + chunk,
-          };
-          return updatedMessages;
+      const service = createProvider(activeHost, activeAuth);
+      const requestMessages: ChatMessage[] = systemPrompt.trim()
+        ? [{ role: 'system', content: systemPrompt }, ...history]
+        : history;
+      // Tool calling is wired for Ollama only, and only for models that declare it.
+      const availableTools = service.kind === 'ollama' && hasCapability(features, 'tools') ? activeTools : [];
+
+      const startedAt = performance.now();
+      let firstTokenAt: number | undefined;
+      let stats: OllamaResponseStats | undefined;
+      // Each round streams a reply; if it ends in tool calls, they run and the
+      // results go back to the model until it answers without calling a tool.
+      for (let round = 0; ; round++) {
+        const calls: OllamaToolCall[] = [];
+        let content = '';
+        const replySoFar: ChatMessage[] = rounds.length > 0 ? [{ role: 'assistant', content: '', toolRounds: rounds }] : [];
+        stats = await service.streamChat(model, [...requestMessages, ...replySoFar], (chunk) => {
+          firstTokenAt ??= performance.now();
+          content += chunk;
+          updateConversation(conversationId, c =>
+            updateNodeMessage(c, replyId, m => ({ ...m, content: m.content + chunk }))
+          );
+        }, {
+          signal: controller.signal,
+          options: compactOptions(generationOptions),
+          keepAlive: keepAlive ?? undefined,
+          // Past the limit, tools are withheld so the model has to answer.
+          tools: round < MAX_TOOL_ROUNDS ? availableTools.map(toOllamaTool) : undefined,
+          onToolCall: (call) => calls.push(call),
         });
-      });
+        if (calls.length === 0) break;
+
+        // The text streamed so far belongs to this round; the final answer starts empty again.
+        const records: ToolCallRecord[] = calls.map(call => ({
+          id: createId(),
+          name: call.function.name,
+          arguments: normalizeToolArguments(call.function.arguments),
+          status: 'running',
+        }));
+        rounds = [...rounds, { content, calls: records }];
+        updateConversation(conversationId, c =>
+          updateNodeMessage(c, replyId, m => ({ ...m, content: '', toolRounds: rounds }))
+        );
+        for (const record of records) {
+          await executeToolCall(record, availableTools, { conversationId, signal: controller.signal }, (updated) => {
+            setRounds(updateToolCall(rounds, updated.id, updated));
+          });
+        }
+      }
+
+      if (stats) {
+        const time_to_first_token_ms = firstTokenAt !== undefined ? firstTokenAt - startedAt : undefined;
+        updateConversation(conversationId, c =>
+          updateNodeMessage(c, replyId, m => ({ ...m, stats: { ...stats, time_to_first_token_ms } }))
+        );
+      }
     } catch (err) {
-      console.error(err);
-      let errorMessage = (err instanceof Error) ? err.message : 'An unknown error occurred';
-      if (err instanceof TypeError && err.message.toLowerCase().includes('failed to fetch')) {
-        errorMessage = `Could not connect to Ollama. Please verify the host is running and reachable, and that CORS is configured correctly.`;
+      if (isAbortError(err)) {
+        // Keep whatever was streamed so far and flag it as cut short.
+        if (rounds.length > 0) setRounds(cancelOpenToolCalls(rounds));
+        updateConversation(conversationId, c => updateNodeMessage(c, replyId, m => ({ ...m, interrupted: true })));
+        return;
       }
-      
-      setMessages(prev => {
-        const lastMsg = prev[prev.length - 1];
-        if (lastMsg?.role === 'assistant' && lastMsg.content === '') {
-           const updated = [...prev];
-           updated[prev.length - 1].content = `Error: ${errorMessage}`;
-           return updated;
+      console.error(err);
+      const errorMessage = describeError(err);
+
+      updateConversation(conversationId, c => {
+        if (c.nodes[replyId]?.message.content === '') {
+          return updateNodeMessage(c, replyId, m => ({ ...m, content: `Error: ${errorMessage}` }));
         }
-        return [...prev, { role: 'assistant', content: `Error: ${errorMessage}` }];
+        return appendMessage(c, replyId, { role: 'assistant', content: `Error: ${errorMessage}`, createdAt: Date.now(), model });
       });
     } finally {
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+      }
       setIsLoading(false);
     }
-  }, [selectedModel, messages, ollamaHost]);
+  }, [activeHost, activeAuth, generationOptions, systemPrompt, keepAlive, updateConversation, modelFeatures, selectedModel, selectedFeatures, activeTools, executeToolCall]);
+
+  const handleSendMessage = useCallback(async (message: string, images?: string[]) => {
+    if (!activeConversation) return;
+    const conversationId = activeConversation.id;
+    const path = getActivePath(activeConversation);
+    const leafId = path.length > 0 ? path[path.length - 1].id : null;
+
+    if (!selectedModel) {
+      const tempError = { role: 'assistant' as const, content: 'Error: Please select a model from the sidebar first.' };
+      updateConversation(conversationId, c => appendMessage(c, leafId, tempError));
+      return;
+    }
+    
+    const newUserMessage: ChatMessage = { role: 'user', content: message, createdAt: Date.now() };
+    if (images) {
+      newUserMessage.images = images;
+    }
+
+    const userId = createId();
+    updateConversation(conversationId, c => ({
+      ...appendMessage(c, leafId, newUserMessage, userId),
+      model: selectedModel,
+      hostId: activeHost.id,
+      title: c.title === DEFAULT_CONVERSATION_TITLE && message.trim() ? titleFromMessage(message) : c.title,
+    }));
+
+    await generateReply(conversationId, userId, [...path.map(node => node.message), newUserMessage], selectedModel);
+  }, [activeConversation, selectedModel, activeHost.id, updateConversation, generateReply]);
+
+  // Editing never overwrites: the new text becomes a sibling branch of the original message.
+  const handleEditMessage = useCallback(async (nodeId: string, content: string) => {
+    if (!activeConversation || !selectedModel) return;
+    const path = getActivePath(activeConversation);
+    const index = path.findIndex(node => node.id === nodeId);
+    if (index === -1 || path[index].message.role !== 'user') return;
+
+    const original = path[index];
+    const editedMessage: ChatMessage = { ...original.message, content, createdAt: Date.now() };
+    const editedId = createId();
+    updateConversation(activeConversation.id, c => appendMessage(c, original.parentId, editedMessage, editedId));
+
+    await generateReply(activeConversation.id, editedId, [...path.slice(0, index).map(node => node.message), editedMessage], selectedModel);
+  }, [activeConversation, selectedModel, updateConversation, generateReply]);
+
+  // Regenerates with the model that wrote the original reply unless another one is picked.
+  const handleRegenerateMessage = useCallback(async (nodeId: string, model?: string) => {
+    if (!activeConversation) return;
+    const path = getActivePath(activeConversation);
+    const index = path.findIndex(node => node.id === nodeId);
+    const parentId = path[index]?.parentId;
+    const replyModel = model || path[index]?.message.model || selectedModel;
+    if (index === -1 || !parentId || !replyModel) return;
+
+    await generateReply(activeConversation.id, parentId, path.slice(0, index).map(node => node.message), replyModel);
+  }, [activeConversation, selectedModel, generateReply]);
+
+  const handleSelectBranch = (nodeId: string) => {
+    if (!activeConversation) return;
+    updateConversation(activeConversation.id, c => selectBranch(c, nodeId));
+  };
+
+  const handleStopGeneration = useCallback(() => {
+    abortControllerRef.current?.abort();
+  }, []);
 
   const handleClearChat = () => {
-    setMessages([]);
+    if (!activeConversation) return;
+    abortControllerRef.current?.abort();
+    updateConversation(activeConversation.id, c => ({ ...c, ...emptyTree() }));
   };
 
-  const ErrorDisplay = () => {
-    type TabID = 'mac' | 'win' | 'linux' | 'docker';
-    const [copied, setCopied] = useState<string | null>(null);
-    const [activeTab, setActiveTab] = useState<TabID>('linux');
-
-    useEffect(() => {
-      const platform = navigator.platform.toUpperCase();
-      if (platform.indexOf('WIN') >= 0) {
-        setActiveTab('win');
-      } else if (platform.indexOf('MAC') >= 0) {
-        setActiveTab('mac');
-      } else {
-        setActiveTab('linux');
-      }
-    }, []);
+  const handleNewConversation = () => {
+    setMainView('chat');
+    createConversation(selectedModel);
+    setIsSidebarOpen(false);
+  };
 
-    const copyToClipboard = (text: string, id: string) => {
-        navigator.clipboard.writeText(text).then(() => {
-            setCopied(id);
-            setTimeout(() => setCopied(null), 2000);
-        });
+  const handleSelectConversation = (id: string) => {
+    setMainView('chat');
+    setActiveConversationId(id);
+    setIsSidebarOpen(false);
+  };
+
+  const handleSelectSearchResult = (conversationId: string, messageId: string) => {
+    setMainView('chat');
+    // The match may sit on a branch that isn't currently shown.
+    updateConversation(conversationId, c => selectBranch(c, messageId));
+    setActiveConversationId(conversationId);
+    setFocusRequest({ messageId, requestedAt: Date.now() });
+    setIsSidebarOpen(false);
+  };
+
+  const handleApplyProfile = (profile: AssistantProfile) => {
+    if (!activeConversation) return;
+    if (profile.model) {
+      setSelectedModel(profile.model);
+    }
+    updateConversation(activeConversation.id, c => ({
+      ...c,
+      model: profile.model || c.model,
+      systemPrompt: profile.systemPrompt,
+      options: profile.options,
+    }));
+  };
+
+  const handleSaveProfile = (name: string) => {
+    const profile: AssistantProfile = {
+      id: createId(),
+      name,
+      model: selectedModel,
+      systemPrompt,
+      options: generationOptions,
     };
+    setProfiles(mergeProfiles(profiles, [profile]));
+  };
 
-    const CodeBlock = ({ command, id, description }: { command: string; id: string, description?: string }) => (
-      <div className="bg-gray-700/50 p-3 rounded-md my-2">
-        {description && <p className="text-xs text-gray-400 mb-2">{description}</p>}
-        <div className="flex items-center justify-between">
-            <code className="text-white text-xs sm:text-sm select-all font-mono">{command}</code>
-            <button onClick={() => copyToClipboard(command, id)} className="text-gray-400 hover:text-white flex-shrink-0 ml-4 p-1 rounded-md hover:bg-gray-600">
-                {copied === id ? <CheckIcon className="w-5 h-5 text-green-400" /> : <ClipboardIcon className="w-5 h-5" />}
-            </button>
-        </div>
-      </div>
-    );
-    
-    const MultiLineCodeBlock = ({ lines, id, description }: { lines: string[], id: string, description?: string }) => (
-      <div className="bg-gray-700/50 p-3 rounded-md my-2">
-        {description && <p className="text-xs text-gray-400 mb-2">{description}</p>}
-        <div className="flex items-start justify-between">
-            <pre><code className="text-white text-xs sm:text-sm select-all font-mono whitespace-pre-wrap">{lines.join('\n')}</code></pre>
-            <button onClick={() => copyToClipboard(lines.join('\n'), id)} className="text-gray-400 hover:text-white flex-shrink-0 ml-4 p-1 rounded-md hover:bg-gray-600">
-                {copied === id ? <CheckIcon className="w-5 h-5 text-green-400" /> : <ClipboardIcon className="w-5 h-5" />}
-            </button>
-        </div>
-      </div>
-    );
+  const handleDeleteProfile = (id: string) => {
+    setProfiles(profiles.filter(p => p.id !== id));
+  };
 
-    const TabButton = ({ tabId, currentTab, setTab, children }: {tabId: TabID, currentTab: string, setTab: (tab: TabID) => void, children: React.ReactNode}) => (
-        <button
-            onClick={() => setTab(tabId)}
-            className={`flex items-center gap-2 px-3 py-2 text-sm font-medium rounded-t-lg border-b-2 transition-colors ${
-                currentTab === tabId
-                    ? 'border-cyan-500 text-white'
-                    : 'border-transparent text-gray-400 hover:border-gray-500 hover:text-gray-300'
-            }`}
-        >
-            {children}
-        </button>
-    )
-
-    const SubSection: React.FC<{title: string; icon: React.ReactNode; children: React.ReactNode}> = ({title, icon, children}) => (
-      <div className="mb-4">
-        <h5 className="font-semibold text-gray-200 flex items-center gap-2 mb-2">
-          {icon}
-          {title}
-        </h5>
-        <div className="pl-6 border-l-2 border-gray-700">{children}</div>
-      </div>
-    );
+  const handleImportProfiles = (imported: AssistantProfile[]) => {
+    setProfiles(mergeProfiles(profiles, imported));
+  };
 
-    return (
-      <div className="m-auto max-w-3xl w-full bg-gray-800 text-gray-300 p-4 sm:p-6 rounded-lg border border-yellow-600/50 shadow-lg">
-        <div className="flex items-center mb-4">
-          <AlertTriangleIcon className="h-10 w-10 mr-4 text-yellow-400 flex-shrink-0" />
-          <div>
-            <h3 className="font-bold text-xl text-yellow-300">Connection to Ollama Failed</h3>
-            <p className="text-sm text-gray-400">This is a common Cross-Origin (CORS) issue that needs to be fixed on your Ollama server.</p>
-          </div>
-        </div>
-        
-        <div className="space-y-6 text-sm">
-            <div className="p-4 bg-gray-900/50 rounded-lg">
-                <h4 className="font-semibold text-lg text-gray-200 mb-2 flex items-center">
-                    <span className="bg-cyan-500 text-gray-900 rounded-full h-6 w-6 text-sm font-bold flex items-center justify-center mr-3">1</span>
-                    Configure Ollama Server
-                </h4>
-                <p className="text-gray-400 mb-3 text-xs sm:text-sm">Choose your setup below and run the command to allow this web app to connect to Ollama.</p>
-                
-                <div className="border-b border-gray-700">
-                    <nav className="-mb-px flex space-x-2" aria-label="Tabs">
-                        <TabButton tabId="mac" currentTab={activeTab} setTab={setActiveTab}>macOS</TabButton>
-                        <TabButton tabId="win" currentTab={activeTab} setTab={setActiveTab}>Windows</TabButton>
-                        <TabButton tabId="linux" currentTab={activeTab} setTab={setActiveTab}>Linux</TabButton>
-                        <TabButton tabId="docker" currentTab={activeTab} setTab={setActiveTab}>Docker</TabButton>
-                    </nav>
-                </div>
-
-                <div className="pt-4">
-                    {activeTab === 'mac' && (
-                        <div>
-                          <SubSection title="For the Ollama Desktop App" icon={<DesktopIcon className="w-4 h-4" />}>
-                              <p className="text-gray-400 text-xs mb-2">1. Open the Terminal app and run this command:</p>
-                              <CodeBlock command="launchctl setenv OLLAMA_ORIGINS '*'" id="mac_launchctl" />
-                              <p className="text-gray-400 text-xs mt-3">2. Find the Ollama icon in your menu bar, click it, and select <span className="font-bold">"Quit Ollama"</span>.</p>
-                              <p className="text-gray-400 text-xs mt-1">3. Re-open the Ollama app from your Applications folder.</p>
-                          </SubSection>
-                           <SubSection title="For Command-Line Users (ollama serve)" icon={<TerminalIcon className="w-4 h-4" />}>
-                              <p className="text-gray-400 text-xs mb-2">Run this in your terminal <span className="font-bold">before</span> starting the Ollama server.</p>
-                              <CodeBlock command="export OLLAMA_ORIGINS='*'" id="mac_export" description="This is temporary for the current terminal session."/>
-                           </SubSection>
-                        </div>
-                    )}
-                    {activeTab === 'win' && (
-                        <div>
-                          <SubSection title="For the Ollama Desktop App (Permanent)" icon={<DesktopIcon className="w-4 h-4" />}>
-                              <p className="text-gray-400 text-xs mb-2">1. Open <span className="font-bold">Command Prompt</span> (not PowerShell) as Administrator and run:</p>
-                              <CodeBlock command='setx OLLAMA_ORIGINS "*"' id="windows_setx" />
-                              <p className="text-gray-400 text-xs mt-3">2. Close the terminal, then <span className="font-bold">restart your computer</span> to apply the change.</p>
-                              <p className="text-gray-400 text-xs mt-1">3. Ensure the Ollama application is restarted.</p>
-                          </SubSection>
-                           <SubSection title="For Command-Line Users (Temporary)" icon={<TerminalIcon className="w-4 h-4" />}>
-                              <CodeBlock command="$env:OLLAMA_ORIGINS = '*'" id="windows_ps" description="For PowerShell:"/>
-                              <CodeBlock command='set OLLAMA_ORIGINS=*' id="windows_cmd" description="For Command Prompt:" />
-                           </SubSection>
-                        </div>
-                    )}
-                     {activeTab === 'linux' && (
-                        <div>
-                           <SubSection title="Temporary (current session)" icon={<TerminalIcon className="w-4 h-4" />}>
-                              <p className="text-gray-400 text-xs mb-2">Run this in your terminal before `ollama serve`:</p>
-                              <CodeBlock command="export OLLAMA_ORIGINS='*'" id="linux_export" />
-                           </SubSection>
-                           <SubSection title="Permanent (systemd)" icon={<DesktopIcon className="w-4 h-4" />}>
-                              <p className="text-gray-400 text-xs mb-2">1. Edit the systemd service for Ollama:</p>
-                              <CodeBlock command="sudo systemctl edit ollama.service" id="linux_systemctl_edit" />
-                              <p className="text-gray-400 text-xs mt-3 mb-2">2. Add these lines in the editor, then save and close:</p>
-                              <MultiLineCodeBlock lines={['[Service]', 'Environment="OLLAMA_ORIGINS=*"']} id="linux_systemd_conf" />
-                              <p className="text-gray-400 text-xs mt-3 mb-2">3. Reload systemd and restart Ollama:</p>
-                              <CodeBlock command="sudo systemctl daemon-reload && sudo systemctl restart ollama" id="linux_systemctl_restart" />
-                           </SubSection>
-                        </div>
-                    )}
-                    {activeTab === 'docker' && (
-                        <div>
-                           <SubSection title="For Docker Users" icon={<DockerIcon className="w-4 h-4" />}>
-                            <p className="text-gray-400 mb-2 text-xs sm:text-sm">Add the environment variable flag <code className="bg-gray-700 px-1 py-0.5 rounded mx-1">-e OLLAMA_ORIGINS='*'</code> to your `docker run` command.</p>
-                            <CodeBlock command="docker run -d --gpus=all -v ollama:/root/.ollama -p 11434:11434 -e OLLAMA_ORIGINS='*' --name ollama ollama/ollama" id="docker" description="Example Docker Run Command:" />
-                           </SubSection>
-                        </div>
-                    )}
-                </div>
-                 <p className="text-xs text-gray-500 mt-4">
-                  Using <code className="bg-gray-700 px-1 py-0.5 rounded">'*'</code> is for development. See the <a href="https://github.com/ollama/ollama/blob/main/docs/faq.md#how-can-i-allow-additional-origins-to-access-ollama" target="_blank" rel="noopener noreferrer" className="underline hover:text-white text-cyan-400">Ollama docs</a> for more secure options.
-                </p>
-            </div>
-
-            <div className="p-4 bg-gray-900/50 rounded-lg border-2 border-yellow-500/50">
-                <h4 className="font-semibold text-lg text-yellow-300 mb-2 flex items-center">
-                  <span className="bg-yellow-500 text-gray-900 rounded-full h-6 w-6 text-sm font-bold flex items-center justify-center mr-3">2</span>
-                  CRITICAL: Restart the Ollama Server
-                </h4>
-                <p className="text-yellow-200 font-bold text-sm sm:text-base">THIS IS THE MOST COMMON MISTAKE.</p>
-                <p className="text-gray-400 text-xs sm:text-sm">The change will not take effect until you have completely quit and restarted your Ollama server. If you started Ollama from your terminal, you must restart it from the <span className="font-bold">same terminal window</span> where you set the variable.</p>
-            </div>
-
-            <div className="p-4 bg-gray-900/50 rounded-lg">
-                <h4 className="font-semibold text-lg text-gray-200 mb-2 flex items-center">
-                    <span className="bg-cyan-500 text-gray-900 rounded-full h-6 w-6 text-sm font-bold flex items-center justify-center mr-3">3</span>
-                    Verify Host & Retry
-                </h4>
-                <p className="text-gray-400 mb-3 text-xs sm:text-sm">Make sure the Ollama Host in the sidebar is correct, then click retry.</p>
-                <button
-                    onClick={fetchModels}
-                    className="w-full bg-cyan-600 hover:bg-cyan-500 text-white font-bold py-2 px-4 rounded-md text-sm transition-colors focus:outline-none focus:ring-2 focus:ring-cyan-500 focus:ring-offset-2 focus:ring-offset-gray-800"
-                >
-                    Retry Connection
-                </button>
-            </div>
-
-            <details className="bg-gray-900/30 p-3 rounded-lg text-xs">
-                <summary className="cursor-pointer font-semibold text-gray-400 hover:text-white">Still having trouble?</summary>
-                <ul className="list-disc list-inside space-y-2 mt-3 text-gray-400 pl-2">
-                    <li>Is the Ollama application actually installed and running on your computer?</li>
-                    <li>Is there a firewall or other software that could be blocking the connection to port <code className="bg-gray-700 px-1 py-0.5 rounded">11434</code>?</li>
-                    <li><span className="font-bold">[Advanced]</span> For temporary testing, you can use a browser extension that disables CORS protection, like "Allow CORS". <span className="text-yellow-500">Warning: This disables important security features. Only use it for local development and disable it right after.</span></li>
-                </ul>
-            </details>
-        </div>
-      </div>
-    );
+  const handleSelectHost = (id: string) => {
+    if (id === activeHost.id) return;
+    const host = hostProfiles.find(h => h.id === id);
+    if (!host) return;
+    abortControllerRef.current?.abort();
+    setActiveHostId(id);
+    if (host.defaultModel) {
+      setSelectedModel(host.defaultModel);
+    }
+  };
+
+  const handleSaveHost = (host: HostProfile, auth: HostAuth) => {
+    saveHostProfile(host);
+    setAuthForHost(host.id, auth);
+  };
+
+  // Points the active host at a new URL, e.g. the same-origin proxy offered by the diagnostics.
+  const handleUseHostUrl = (url: string) => {
+    saveHostProfile({ ...activeHost, url });
   };
 
   return (
     <div className="flex h-screen w-screen font-sans">
       <Sidebar
-        ollamaHost={ollamaHost}
-        setOllamaHost={setOllamaHost}
+        hostProfiles={hostProfiles}
+        activeHostId={activeHost.id}
+        onSelectHost={handleSelectHost}
+        hostAuth={hostAuth}
+        onSaveHost={handleSaveHost}
+        keepAlive={keepAlive}
+        setKeepAlive={setKeepAlive}
+        onOpenModelManager={() => {
+          setMainView('models');
+          setIsSidebarOpen(false);
+        }}
+        onOpenModelfile={() => {
+          setMainView('modelfile');
+          setIsSidebarOpen(false);
+        }}
+        pullJobs={pullJobs}
+        onPullModel={(model) => enqueuePull(activeHost.id, model)}
+        onCancelPull={cancelPull}
+        onClearFinishedPulls={clearFinishedPulls}
+        onOpenCatalog={() => {
+          setMainView('catalog');
+          setIsSidebarOpen(false);
+        }}
+        onOpenMcpServers={() => {
+          setMainView('mcp');
+          setIsSidebarOpen(false);
+        }}
+        onDeleteHost={deleteHostProfile}
         models={models}
         selectedModel={selectedModel}
         setSelectedModel={setSelectedModel}
         refreshModels={fetchModels}
         isSidebarOpen={isSidebarOpen}
         selectedModelInfo={selectedModelInfo}
+        selectedFeatures={selectedFeatures}
+        toolSettings={toolSettings}
+        modelFeatures={modelFeatures}
         isModelInfoLoading={isModelInfoLoading}
         onClearChat={handleClearChat}
+        generationOptions={generationOptions}
+        setGenerationOptions={setGenerationOptions}
+        systemPrompt={systemPrompt}
+        setSystemPrompt={setSystemPrompt}
+        profiles={profiles}
+        onApplyProfile={handleApplyProfile}
+        onSaveProfile={handleSaveProfile}
+        onDeleteProfile={handleDeleteProfile}
+        onImportProfiles={handleImportProfiles}
+        conversations={conversations}
+        activeConversationId={activeConversation?.id ?? null}
+        onNewConversation={handleNewConversation}
+        onSelectConversation={handleSelectConversation}
+        onRenameConversation={renameConversation}
+        onDuplicateConversation={duplicateConversation}
+        onDeleteConversation={deleteConversation}
+        onImportConversations={importConversations}
+        onSelectSearchResult={handleSelectSearchResult}
       />
       <main className="flex-1 flex flex-col relative">
         <button
@@ -362,14 +482,87 @@ const App: React.FC = () => {
         </button>
 
         <div className="flex-1 flex flex-col overflow-hidden">
-          {error ? (
+          {error instanceof AuthenticationError ? (
+              <div className="flex-1 overflow-y-auto p-4 flex items-center justify-center">
+                  <HostAuthPrompt
+                    key={activeHost.id}
+                    host={activeHost}
+                    auth={activeAuth}
+                    error={error}
+                    onSubmit={(auth) => setAuthForHost(activeHost.id, auth)}
+                  />
+              </div>
+          ) : error ? (
               <div className="flex-1 overflow-y-auto p-4 flex items-center justify-center">
-                  <ErrorDisplay />
+                  <ConnectionDiagnostics host={activeHost} auth={activeAuth} error={error} onRetry={fetchModels} onUseHost={handleUseHostUrl} />
               </div>
+          ) : mainView === 'models' && (activeHost.provider ?? 'ollama') === 'ollama' ? (
+            <ModelManagerView
+              host={activeHost}
+              auth={activeAuth}
+              models={models}
+              conversations={conversations}
+              pullJobs={pullJobs}
+              onPull={(model, options) => enqueuePull(activeHost.id, model, options)}
+              onModelsChanged={fetchModels}
+              onClose={() => setMainView('chat')}
+            />
+          ) : mainView === 'catalog' && (activeHost.provider ?? 'ollama') === 'ollama' ? (
+            <ModelCatalogView
+              host={activeHost}
+              models={models}
+              pullJobs={pullJobs}
+              onPull={(model) => enqueuePull(activeHost.id, model)}
+              onClose={() => setMainView('chat')}
+            />
+          ) : mainView === 'modelfile' && (activeHost.provider ?? 'ollama') === 'ollama' ? (
+            <ModelfileView
+              host={activeHost}
+              auth={activeAuth}
+              models={models}
+              initialModel={selectedModel}
+              onModelsChanged={fetchModels}
+              onClose={() => setMainView('chat')}
+            />
+          ) : mainView === 'mcp' ? (
+            <McpServersView
+              servers={mcp.servers}
+              states={mcp.states}
+              authFor={mcp.authFor}
+              toolsEnabled={toolSettings.toolsEnabled}
+              disabledTools={toolSettings.disabledTools}
+              setToolEnabled={toolSettings.setToolEnabled}
+              callLog={mcp.callLog}
+              onSaveServer={mcp.saveServer}
+              onDeleteServer={mcp.deleteServer}
+              onRefreshServer={mcp.refreshServer}
+              onClearCallLog={mcp.clearCallLog}
+              onClose={() => setMainView('chat')}
+            />
+          ) : mainView === 'arena' ? (
+            <ArenaView
+              host={activeHost}
+              hostAuth={activeAuth}
+              keepAlive={keepAlive}
+              models={models}
+              systemPrompt={systemPrompt}
+              options={generationOptions}
+              onClose={() => setMainView('chat')}
+            />
           ) : (
             <Chat
-              messages={messages}
+              messages={thread}
+              models={models}
+              focusRequest={focusRequest}
               onSendMessage={handleSendMessage}
+              onEditMessage={handleEditMessage}
+              onRegenerateMessage={handleRegenerateMessage}
+              onSelectBranch={handleSelectBranch}
+              onStopGeneration={handleStopGeneration}
+              onOpenArena={() => setMainView('arena')}
+              tools={toolSettings.registry}
+              onToolDecision={decideToolCall}
+              imageAttachBlockedReason={imagesUnsupported ? `${selectedModel} can't read images.` : undefined}
               isLoading={isLoading}
             />
           )}
@@ -0,0 +1,284 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import type { ArenaVote, HostAuth, HostProfile, KeepAlive, ChatMessage, OllamaModel, OllamaOptions, OllamaResponseStats } from '../types';
+import { isAbortError } from '../services/ollamaService';
+import { createProvider } from '../services/chatProvider';
+import { useLocalStorage } from '../hooks/useLocalStorage';
+import { compactOptions } from '../utils/modelParameters';
+import { createId } from '../utils/id';
+import { tokensPerSecond } from '../utils/responseStats';
+import { describeError } from '../utils/errorHelp';
+import MessageContent from './MessageContent';
+import { SendIcon, StopIcon, XIcon } from './icons';
+
+interface ArenaViewProps {
+  host: HostProfile;
+  hostAuth: HostAuth;
+  keepAlive: KeepAlive | null;
+  models: OllamaModel[];
+  systemPrompt: string;
+  options: OllamaOptions;
+  onClose: () => void;
+}
+
+type ColumnStatus = 'waiting' | 'streaming' | 'done' | 'stopped' | 'error';
+
+interface ArenaColumn {
+  model: string;
+  label: string;
+  content: string;
+  status: ColumnStatus;
+  startedAt: number; // performance.now()
+  firstTokenAt?: number;
+  finishedAt?: number;
+  chunkCount: number;
+  stats?: OllamaResponseStats;
+  error?: string;
+}
+
+const LABELS = ['A', 'B', 'C', 'D'];
+const MIN_MODELS = 2;
+const MAX_MODELS = 4;
+
+const shuffle = <T,>(items: T[]): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+// While streaming, one chunk is roughly one token, which is close enough for a
+// live readout. Once the final chunk arrives, Ollama's own eval stats win.
+const columnStats = (column: ArenaColumn, now: number) => {
+  const ttft = column.firstTokenAt !== undefined ? column.firstTokenAt - column.startedAt : undefined;
+  const end = column.finishedAt ?? now;
+  const generating = column.firstTokenAt !== undefined ? (end - column.firstTokenAt) / 1000 : 0;
+  const estimate = generating > 0 ? column.chunkCount / generating : undefined;
+  return { ttft, tokensPerSecond: (column.stats && tokensPerSecond(column.stats)) ?? estimate };
+};
+
+const ArenaView: React.FC<ArenaViewProps> = ({ host, hostAuth, keepAlive, models, systemPrompt, options, onClose }) => {
+  const [selectedModels, setSelectedModels] = useState<string[]>([]);
+  const [isBlind, setIsBlind] = useState(false);
+  const [prompt, setPrompt] = useState('');
+  const [lastPrompt, setLastPrompt] = useState('');
+  const [columns, setColumns] = useState<ArenaColumn[]>([]);
+  const [votedFor, setVotedFor] = useState<string | null>(null);
+  const [votes, setVotes] = useLocalStorage<ArenaVote[]>('arenaVotes', []);
+  const [now, setNow] = useState(() => performance.now());
+  const abortRef = useRef<AbortController | null>(null);
+
+  const isRunning = columns.some(c => c.status === 'waiting' || c.status === 'streaming');
+  const isFinished = columns.length > 0 && !isRunning;
+  const revealModels = !isBlind || votedFor !== null;
+
+  // Keep tokens/sec ticking between chunks.
+  useEffect(() => {
+    if (!isRunning) return;
+    const timer = setInterval(() => setNow(performance.now()), 250);
+    return () => clearInterval(timer);
+  }, [isRunning]);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const toggleModel = (name: string) => {
+    setSelectedModels(prev =>
+      prev.includes(name)
+        ? prev.filter(m => m !== name)
+        : prev.length < MAX_MODELS ? [...prev, name] : prev
+    );
+  };
+
+  const updateColumn = (index: number, updater: (column: ArenaColumn) => ArenaColumn) => {
+    setColumns(prev => prev.map((column, i) => (i === index ? updater(column) : column)));
+  };
+
+  const handleRun = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!prompt.trim() || selectedModels.length < MIN_MODELS || isRunning) return;
+
+    const order = isBlind ? shuffle(selectedModels) : selectedModels;
+    const startedAt = performance.now();
+    setColumns(order.map((model, i) => ({ model, label: LABELS[i], content: '', status: 'waiting', startedAt, chunkCount: 0 })));
+    setVotedFor(null);
+    setLastPrompt(prompt.trim());
+    setPrompt('');
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const service = createProvider(host, hostAuth);
+    const messages: ChatMessage[] = [
+      ...(systemPrompt.trim() ? [{ role: 'system' as const, content: systemPrompt }] : []),
+      { role: 'user', content: prompt.trim() },
+    ];
+
+    await Promise.all(order.map((model, index) =>
+      service.streamChat(model, messages, (chunk) => {
+        updateColumn(index, column => ({
+          ...column,
+          status: 'streaming',
+          content: column.content + chunk,
+          chunkCount: column.chunkCount + 1,
+          firstTokenAt: column.firstTokenAt ?? performance.now(),
+        }));
+      }, { signal: controller.signal, options: compactOptions(options), keepAlive: keepAlive ?? undefined })
+        .then((stats) => updateColumn(index, column => ({ ...column, status: 'done', stats, finishedAt: performance.now() })))
+        .catch((err) => {
+          if (!isAbortError(err)) console.error(`Arena request to ${model} failed:`, err);
+          updateColumn(index, column => ({
+            ...column,
+            status: isAbortError(err) ? 'stopped' : 'error',
+            error: isAbortError(err) ? undefined : describeError(err),
+            finishedAt: performance.now(),
+          }));
+        })
+    ));
+
+    if (abortRef.current === controller) {
+      abortRef.current = null;
+    }
+  };
+
+  const handleVote = (winner: string) => {
+    setVotedFor(winner);
+    setVotes([
+      ...votes,
+      { id: createId(), prompt: lastPrompt, models: columns.map(c => c.model), winner, blind: isBlind, createdAt: Date.now() },
+    ]);
+  };
+
+  const tally = useMemo(() => {
+    const wins = new Map<string, number>();
+    for (const vote of votes) {
+      if (vote.winner !== 'tie') wins.set(vote.winner, (wins.get(vote.winner) ?? 0) + 1);
+    }
+    return [...wins.entries()].sort((a, b) => b[1] - a[1]);
+  }, [votes]);
+
+  const gridCols = columns.length >= 4 ? 'lg:grid-cols-4' : columns.length === 3 ? 'lg:grid-cols-3' : 'lg:grid-cols-2';
+
+  return (
+    <div className="flex flex-col flex-1 bg-gray-900 overflow-hidden">
+      <div className="flex items-center justify-between p-4 border-b border-gray-700">
+        <div>
+          <h2 className="text-lg font-semibold">Compare Models</h2>
+          <p className="text-xs text-gray-400">Send one prompt to {MIN_MODELS}–{MAX_MODELS} models at once.</p>
+        </div>
+        <button onClick={onClose} className="p-2 rounded-md hover:bg-gray-700" aria-label="Close comparison">
+          <XIcon className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div className="p-4 border-b border-gray-700 text-sm">
+        <div className="flex flex-wrap gap-2">
+          {models.map(model => {
+            const checked = selectedModels.includes(model.name);
+            return (
+              <label
+                key={model.name}
+                className={`flex items-center gap-2 px-2 py-1 rounded-md border cursor-pointer ${checked ? 'border-cyan-500 bg-cyan-600/20' : 'border-gray-600'}`}
+              >
+                <input
+                  type="checkbox"
+                  checked={checked}
+                  onChange={() => toggleModel(model.name)}
+                  disabled={isRunning || (!checked && selectedModels.length >= MAX_MODELS)}
+                />
+                {model.name.replace(':latest', '')}
+              </label>
+            );
+          })}
+        </div>
+        <label className="flex items-center gap-2 mt-3 text-xs text-gray-400">
+          <input type="checkbox" checked={isBlind} onChange={(e) => setIsBlind(e.target.checked)} disabled={isRunning} />
+          Blind mode (shuffle columns and hide model names until you vote)
+        </label>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4">
+        {lastPrompt && <p className="mb-4 text-sm text-gray-300"><span className="text-gray-500">Prompt:</span> {lastPrompt}</p>}
+        <div className={`grid gap-4 grid-cols-1 md:grid-cols-2 ${gridCols}`}>
+          {columns.map(column => {
+            const { ttft, tokensPerSecond } = columnStats(column, now);
+            return (
+              <div key={column.label} className={`flex flex-col rounded-lg bg-gray-800 border ${votedFor === column.model ? 'border-cyan-500' : 'border-gray-700'}`}>
+                <div className="flex justify-between items-center px-3 py-2 border-b border-gray-700 text-xs">
+                  <span className="font-semibold text-gray-200">
+                    {column.label}{revealModels && <span className="ml-2 font-normal text-gray-400">{column.model}</span>}
+                  </span>
+                  <span className="text-gray-400">
+                    {ttft !== undefined ? `TTFT ${(ttft / 1000).toFixed(2)}s` : column.status === 'waiting' ? 'waiting…' : ''}
+                    {tokensPerSecond !== undefined && ` · ${tokensPerSecond.toFixed(1)} tok/s`}
+                  </span>
+                </div>
+                <div className="p-3 text-sm flex-1">
+                  <MessageContent content={column.content} />
+                  {column.status === 'stopped' && <p className="mt-2 text-xs italic text-gray-400">Generation stopped.</p>}
+                  {column.error && <p className="mt-2 text-xs text-red-400">Error: {column.error}</p>}
+                </div>
+                {isFinished && votedFor === null && (
+                  <button
+                    onClick={() => handleVote(column.model)}
+                    className="m-3 mt-0 bg-gray-700 hover:bg-cyan-600 text-white text-xs font-bold py-1 px-2 rounded-md"
+                  >
+                    Prefer {column.label}
+                  </button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+        {isFinished && votedFor === null && (
+          <button onClick={() => handleVote('tie')} className="mt-4 text-xs text-gray-400 hover:text-white underline">
+            It's a tie
+          </button>
+        )}
+        {tally.length > 0 && (
+          <details className="mt-6 text-xs text-gray-400">
+            <summary className="cursor-pointer hover:text-white">Saved votes ({votes.length})</summary>
+            <ul className="mt-2 space-y-1">
+              {tally.map(([model, wins]) => (
+                <li key={model} className="flex justify-between max-w-xs">
+                  <span>{model}</span><span>{wins} win{wins === 1 ? '' : 's'}</span>
+                </li>
+              ))}
+            </ul>
+            <button onClick={() => setVotes([])} className="mt-2 hover:text-red-400">Clear votes</button>
+          </details>
+        )}
+      </div>
+
+      <form onSubmit={handleRun} className="p-4 border-t border-gray-700 flex items-center space-x-2">
+        <input
+          type="text"
+          value={prompt}
+          onChange={(e) => setPrompt(e.target.value)}
+          placeholder={selectedModels.length < MIN_MODELS ? `Select at least ${MIN_MODELS} models...` : 'Prompt for all selected models...'}
+          className="flex-1 bg-gray-700 border border-gray-600 rounded-lg p-3 focus:ring-cyan-500 focus:border-cyan-500"
+          disabled={isRunning}
+        />
+        {isRunning ? (
+          <button
+            type="button"
+            onClick={() => abortRef.current?.abort()}
+            className="bg-red-600 text-white p-3 rounded-full hover:bg-red-500 transition-colors"
+            aria-label="Stop all"
+          >
+            <StopIcon className="w-6 h-6" />
+          </button>
+        ) : (
+          <button
+            type="submit"
+            disabled={!prompt.trim() || selectedModels.length < MIN_MODELS}
+            className="bg-cyan-600 text-white p-3 rounded-full hover:bg-cyan-500 disabled:bg-gray-600 disabled:cursor-not-allowed transition-colors"
+          >
+            <SendIcon className="w-6 h-6" />
+          </button>
+        )}
+      </form>
+    </div>
+  );
+};
+
+export default ArenaView;
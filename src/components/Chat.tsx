@@ -1,77 +1,175 @@
 import React, { useState, useRef, useEffect } from 'react';
-import type { ChatMessage } from '../types';
-import { SendIcon, BotIcon, UserIcon, PaperclipIcon, XIcon, ClipboardIcon, CheckIcon } from './icons';
-import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
-import { atomDark } from 'react-syntax-highlighter/dist/esm/styles/prism';
+import type { OllamaModel, ThreadMessage, ToolDecision } from '../types';
+import { SendIcon, BotIcon, UserIcon, PaperclipIcon, XIcon, StopIcon, ChevronLeftIcon, ChevronRightIcon, PencilIcon, RefreshIcon, ColumnsIcon } from './icons';
+import MessageContent from './MessageContent';
+import ToolCallCard from './ToolCallCard';
+import type { ToolDefinition } from '../services/browserTools';
+import { summarizeStats, formatSeconds } from '../utils/responseStats';
+import type { ResponseStats } from '../types';
 
 
+export interface MessageFocusRequest {
+  messageId: string;
+  requestedAt: number; // lets the same message be focused twice in a row
+}
+
 interface ChatProps {
-  messages: ChatMessage[];
+  messages: ThreadMessage[];
+  models: OllamaModel[];
+  focusRequest?: MessageFocusRequest | null;
   onSendMessage: (message: string, images?: string[]) => void;
+  onEditMessage: (messageId: string, content: string) => void;
+  onRegenerateMessage: (messageId: string, model?: string) => void;
+  onSelectBranch: (messageId: string) => void;
+  onStopGeneration: () => void;
+  onOpenArena: () => void;
+  tools: ToolDefinition[];
+  onToolDecision: (id: string, decision: ToolDecision) => void;
+  imageAttachBlockedReason?: string; // set when the selected model has no vision support
   isLoading: boolean;
 }
 
-const CodeBlock = ({ language, code }: { language: string, code: string }) => {
-    const [copied, setCopied] = useState(false);
+const FOCUS_HIGHLIGHT_MS = 2000;
 
-    const handleCopy = () => {
-        if (copied) return;
-        navigator.clipboard.writeText(code).then(() => {
-            setCopied(true);
-            setTimeout(() => setCopied(false), 2000);
-        }).catch(err => {
-            console.error('Failed to copy code: ', err);
-        });
-    };
+const BranchNav: React.FC<{ entry: ThreadMessage; disabled: boolean; onSelectBranch: (messageId: string) => void }> = ({ entry, disabled, onSelectBranch }) => {
+  const { siblingIds } = entry;
+  if (siblingIds.length < 2) return null;
+  const index = siblingIds.indexOf(entry.id);
+  return (
+    <div className="flex items-center gap-1">
+      <button
+        onClick={() => onSelectBranch(siblingIds[index - 1])}
+        disabled={disabled || index <= 0}
+        className="p-0.5 rounded hover:bg-gray-700 hover:text-white disabled:text-gray-600 disabled:hover:bg-transparent"
+        aria-label="Previous version"
+      >
+        <ChevronLeftIcon className="w-3 h-3" />
+      </button>
+      <span>{index + 1}/{siblingIds.length}</span>
+      <button
+        onClick={() => onSelectBranch(siblingIds[index + 1])}
+        disabled={disabled || index >= siblingIds.length - 1}
+        className="p-0.5 rounded hover:bg-gray-700 hover:text-white disabled:text-gray-600 disabled:hover:bg-transparent"
+        aria-label="Next version"
+      >
+        <ChevronRightIcon className="w-3 h-3" />
+      </button>
+    </div>
+  );
+};
 
-    return (
-        <div className="my-2 bg-gray-900 rounded-md overflow-hidden border border-gray-700">
-            <div className="flex justify-between items-center px-4 py-1 bg-gray-800 text-xs text-gray-400">
-                <span>{language}</span>
-                <button onClick={handleCopy} className="flex items-center gap-1.5 p-1 rounded-md hover:bg-gray-700">
-                    {copied ? <CheckIcon className="w-4 h-4 text-green-400" /> : <ClipboardIcon className="w-4 h-4" />}
-                    <span className="text-xs">{copied ? 'Copied!' : 'Copy code'}</span>
-                </button>
-            </div>
-            <SyntaxHighlighter
-                language={language}
-                style={atomDark}
-                customStyle={{ margin: 0, padding: '1rem', backgroundColor: '#1E1E1E' }}
-                codeTagProps={{ style: { fontSize: '0.875rem' } }}
-            >
-                {code}
-            </SyntaxHighlighter>
-        </div>
-    );
+const StatsFooter: React.FC<{ stats: ResponseStats }> = ({ stats }) => {
+  const summary = summarizeStats(stats);
+  const parts: string[] = [];
+  if (summary.tokensPerSecond !== undefined) parts.push(`${summary.tokensPerSecond.toFixed(1)} tok/s`);
+  if (summary.timeToFirstTokenMs !== undefined) parts.push(`TTFT ${formatSeconds(summary.timeToFirstTokenMs)}`);
+  if (summary.outputTokens !== undefined) parts.push(`${summary.outputTokens} tokens`);
+  if (summary.promptTokens !== undefined) parts.push(`${summary.promptTokens} prompt`);
+  if (summary.totalMs !== undefined) parts.push(`${formatSeconds(summary.totalMs)} total`);
+
+  return (
+    <div className="mt-2 pt-2 border-t border-gray-600 flex flex-wrap items-center gap-x-2 text-[11px] text-gray-400">
+      <span>{parts.join(' · ')}</span>
+      {summary.loadedCold && summary.loadMs !== undefined && (
+        <span className="px-1.5 rounded bg-yellow-600/30 text-yellow-300" title="The model was not in memory and had to be loaded first">
+          cold load {formatSeconds(summary.loadMs)}
+        </span>
+      )}
+    </div>
+  );
 };
 
+interface MessageProps {
+  entry: ThreadMessage;
+  models: OllamaModel[];
+  isFocused?: boolean;
+  isBusy: boolean;
+  onEdit: (messageId: string, content: string) => void;
+  onRegenerate: (messageId: string, model?: string) => void;
+  onSelectBranch: (messageId: string) => void;
+  tools: ToolDefinition[];
+  onToolDecision: (id: string, decision: ToolDecision) => void;
+}
 
-const Message: React.FC<{ message: ChatMessage }> = ({ message }) => {
+const Message: React.FC<MessageProps> = ({ entry, models, isFocused, isBusy, onEdit, onRegenerate, onSelectBranch, tools, onToolDecision }) => {
+  const { message } = entry;
   const isUser = message.role === 'user';
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState('');
+
+  if (message.role === 'system') {
+    return (
+      <div className={`my-4 mx-auto max-w-2xl p-3 rounded-lg border text-xs text-gray-400 ${isFocused ? 'border-yellow-400' : 'border-gray-700'}`}>
+        <p className="font-semibold uppercase tracking-wide mb-1">System</p>
+        <p className="whitespace-pre-wrap">{message.content}</p>
+      </div>
+    );
+  }
   
+  const startEditing = () => {
+    setDraft(message.content);
+    setIsEditing(true);
+  };
+
+  const submitEdit = () => {
+    if (!draft.trim() && !message.images?.length) return;
+    setIsEditing(false);
+    onEdit(entry.id, draft.trim());
+  };
+
   const renderContent = () => {
+    if (isEditing) {
+      return (
+        <div className="w-full">
+          <textarea
+            autoFocus
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && !e.shiftKey) {
+                e.preventDefault();
+                submitEdit();
+              }
+              if (e.key === 'Escape') setIsEditing(false);
+            }}
+            rows={Math.min(10, Math.max(2, draft.split('\n').length))}
+            className="w-full min-w-[16rem] bg-cyan-700 border border-cyan-400 rounded-md p-2 text-white focus:ring-white focus:border-white"
+          />
+          <div className="flex justify-end gap-2 mt-2 text-xs">
+            <button onClick={() => setIsEditing(false)} className="px-2 py-1 rounded-md hover:bg-cyan-700">Cancel</button>
+            <button onClick={submitEdit} className="px-2 py-1 rounded-md bg-white text-cyan-700 font-semibold hover:bg-gray-200">Save & Submit</button>
+          </div>
+        </div>
+      );
+    }
     if (isUser) {
         return <p className="whitespace-pre-wrap">{message.content}</p>;
     }
-    
-    const parts = message.content.split(/(```[\s\S]*?```)/g);
-    
-    return (
-      <div>
-        {parts.map((part, index) => {
-          const codeBlockMatch = part.match(/^```(\w*)\n?([\s\S]*?)```$/);
-          if (codeBlockMatch) {
-            const language = codeBlockMatch[1] || 'text';
-            const code = codeBlockMatch[2];
-            return <CodeBlock key={index} language={language} code={code.trim()} />;
-          }
-          if (part.trim()) {
-            return <p key={index} className="whitespace-pre-wrap">{part}</p>;
-          }
-          return null;
-        })}
-      </div>
-    );
+    if (message.toolRounds?.length) {
+      return (
+        <>
+          {message.toolRounds.map((round, index) => (
+            <div key={index}>
+              {round.content && <MessageContent content={round.content} />}
+              {round.calls.map(call => {
+                const tool = tools.find(t => t.name === call.name);
+                return (
+                  <ToolCallCard
+                    key={call.id}
+                    call={call}
+                    approvalPrompt={tool?.approvalPrompt(call.arguments)}
+                    onDecision={onToolDecision}
+                  />
+                );
+              })}
+            </div>
+          ))}
+          {message.content && <MessageContent content={message.content} />}
+        </>
+      );
+    }
+
+    return <MessageContent content={message.content} />;
   };
   
   return (
@@ -81,15 +179,64 @@ const Message: React.FC<{ message: ChatMessage }> = ({ message }) => {
           <BotIcon className="w-5 h-5 text-cyan-500" />
         </div>
       )}
-      <div className={`max-w-xl p-3 md:p-4 rounded-lg shadow ${isUser ? 'bg-cyan-600 text-white' : 'bg-gray-700'}`}>
-        {message.images && message.images.length > 0 && (
-            <div className={`mb-2 grid gap-2 ${message.images.length === 1 ? 'grid-cols-1' : 'grid-cols-2'}`}>
-                {message.images.map((imgData, index) => (
-                    <img key={index} src={`data:image/jpeg;base64,${imgData}`} alt={`${isUser ? "User upload" : "Generated image"} ${index + 1}`} className="rounded-lg max-w-full max-h-64 object-contain" />
-                ))}
-            </div>
+      <div className={`flex flex-col max-w-xl ${isUser ? 'items-end' : 'items-start'}`}>
+        <div className={`p-3 md:p-4 rounded-lg shadow transition-shadow ${isUser ? 'bg-cyan-600 text-white' : 'bg-gray-700'} ${isFocused ? 'ring-2 ring-yellow-400' : ''}`}>
+          {message.images && message.images.length > 0 && (
+              <div className={`mb-2 grid gap-2 ${message.images.length === 1 ? 'grid-cols-1' : 'grid-cols-2'}`}>
+                  {message.images.map((imgData, index) => (
+                      <img key={index} src={`data:image/jpeg;base64,${imgData}`} alt={`${isUser ? "User upload" : "Generated image"} ${index + 1}`} className="rounded-lg max-w-full max-h-64 object-contain" />
+                  ))}
+              </div>
+          )}
+          {renderContent()}
+          {message.interrupted && (
+              <p className="mt-2 text-xs italic text-gray-400">Generation stopped.</p>
+          )}
+          {message.stats && <StatsFooter stats={message.stats} />}
+        </div>
+        {!isEditing && (
+          <div className="flex items-center gap-2 mt-1 text-xs text-gray-500">
+            <BranchNav entry={entry} disabled={isBusy} onSelectBranch={onSelectBranch} />
+            {isUser ? (
+              <button
+                onClick={startEditing}
+                disabled={isBusy}
+                className="flex items-center gap-1 p-0.5 rounded hover:text-white disabled:text-gray-600"
+                aria-label="Edit message"
+              >
+                <PencilIcon className="w-3 h-3" />
+                Edit
+              </button>
+            ) : (
+              <>
+                {message.model && <span className="text-gray-400">{message.model.replace(':latest', '')}</span>}
+                <button
+                  onClick={() => onRegenerate(entry.id)}
+                  disabled={isBusy || !entry.parentId}
+                  className="flex items-center gap-1 p-0.5 rounded hover:text-white disabled:text-gray-600"
+                  aria-label="Regenerate response"
+                >
+                  <RefreshIcon className="w-3 h-3" />
+                  Regenerate
+                </button>
+                {models.length > 0 && (
+                  <select
+                    value=""
+                    onChange={(e) => onRegenerate(entry.id, e.target.value)}
+                    disabled={isBusy || !entry.parentId}
+                    className="bg-transparent hover:text-white cursor-pointer disabled:text-gray-600 disabled:cursor-not-allowed"
+                    aria-label="Regenerate with another model"
+                  >
+                    <option value="" disabled>Regenerate with…</option>
+                    {models.map(model => (
+                      <option key={model.name} value={model.name}>{model.name.replace(':latest', '')}</option>
+                    ))}
+                  </select>
+                )}
+              </>
+            )}
+          </div>
         )}
-        {renderContent()}
       </div>
        {isUser && (
         <div className="flex-shrink-0 w-8 h-8 rounded-full bg-gray-600 flex items-center justify-center">
@@ -100,8 +247,24 @@ const Message: React.FC<{ message: ChatMessage }> = ({ message }) => {
   );
 };
 
-const Chat: React.FC<ChatProps> = ({ messages, onSendMessage, isLoading }) => {
+const Chat: React.FC<ChatProps> = ({
+  messages,
+  models,
+  focusRequest,
+  onSendMessage,
+  onEditMessage,
+  onRegenerateMessage,
+  onSelectBranch,
+  onStopGeneration,
+  onOpenArena,
+  tools,
+  onToolDecision,
+  imageAttachBlockedReason,
+  isLoading,
+}) => {
   const [input, setInput] = useState('');
+  const [focusedId, setFocusedId] = useState<string | null>(null);
+  const messagesContainerRef = useRef<HTMLDivElement>(null);
   const [image, setImage] = useState<string | null>(null); // base64 string
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -113,6 +276,16 @@ const Chat: React.FC<ChatProps> = ({ messages, onSendMessage, isLoading }) => {
   useEffect(() => {
     scrollToBottom();
   }, [messages, isLoading]);
+
+  // Declared after the scroll-to-bottom effect so it wins when both fire together.
+  useEffect(() => {
+    if (!focusRequest) return;
+    const element = messagesContainerRef.current?.querySelector(`[data-message-id="${focusRequest.messageId}"]`);
+    element?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    setFocusedId(focusRequest.messageId);
+    const timer = setTimeout(() => setFocusedId(null), FOCUS_HIGHLIGHT_MS);
+    return () => clearTimeout(timer);
+  }, [focusRequest]);
   
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
@@ -130,7 +303,7 @@ const Chat: React.FC<ChatProps> = ({ messages, onSendMessage, isLoading }) => {
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if ((input.trim() || image) && !isLoading) {
+    if ((input.trim() || image) && !isLoading && !(image && imageAttachBlockedReason)) {
       onSendMessage(input.trim(), image ? [image] : undefined);
       setInput('');
       setImage(null);
@@ -142,7 +315,17 @@ const Chat: React.FC<ChatProps> = ({ messages, onSendMessage, isLoading }) => {
 
   return (
     <div className="flex flex-col flex-1 bg-gray-900 overflow-hidden">
-      <div className="flex-1 overflow-y-auto p-6">
+      <div className="flex justify-end px-4 py-2 border-b border-gray-800">
+        <button
+          onClick={onOpenArena}
+          disabled={isLoading}
+          className="flex items-center gap-2 text-xs text-gray-400 hover:text-white px-2 py-1 rounded-md hover:bg-gray-700 disabled:text-gray-600 disabled:hover:bg-transparent"
+        >
+          <ColumnsIcon className="w-4 h-4" />
+          Compare models
+        </button>
+      </div>
+      <div ref={messagesContainerRef} className="flex-1 overflow-y-auto p-6">
         {messages.length === 0 && !isLoading && (
             <div className="flex flex-col items-center justify-center h-full text-gray-500">
                 <BotIcon className="w-16 h-16 mb-4"/>
@@ -150,10 +333,22 @@ const Chat: React.FC<ChatProps> = ({ messages, onSendMessage, isLoading }) => {
                 <p>Select a model and start chatting.</p>
             </div>
         )}
-        {messages.map((msg, index) => (
-          <Message key={index} message={msg} />
+        {messages.map((entry) => (
+          <div key={entry.id} data-message-id={entry.id}>
+            <Message
+              entry={entry}
+              models={models}
+              isFocused={focusedId === entry.id}
+              isBusy={isLoading}
+              onEdit={onEditMessage}
+              onRegenerate={onRegenerateMessage}
+              onSelectBranch={onSelectBranch}
+              tools={tools}
+              onToolDecision={onToolDecision}
+            />
+          </div>
         ))}
-        {isLoading && messages[messages.length - 1]?.role === 'user' && (
+        {isLoading && messages[messages.length - 1]?.message.role === 'user' && (
           <div className="flex items-start gap-4 my-4">
              <div className="flex-shrink-0 w-8 h-8 rounded-full bg-gray-700 flex items-center justify-center">
                 <BotIcon className="w-5 h-5 text-cyan-500" />
@@ -186,6 +381,9 @@ const Chat: React.FC<ChatProps> = ({ messages, onSendMessage, isLoading }) => {
                 </button>
             </div>
         )}
+        {image && imageAttachBlockedReason && (
+            <p className="px-2 pb-2 text-xs text-yellow-500">{imageAttachBlockedReason} Remove the image or pick a vision model.</p>
+        )}
         <form onSubmit={handleSubmit} className="flex items-center space-x-2">
            <input
               type="file"
@@ -197,9 +395,10 @@ const Chat: React.FC<ChatProps> = ({ messages, onSendMessage, isLoading }) => {
             <button
               type="button"
               onClick={() => fileInputRef.current?.click()}
-              disabled={isLoading || !!image}
+              disabled={isLoading || !!image || !!imageAttachBlockedReason}
               className="p-3 text-gray-400 hover:text-white rounded-full hover:bg-gray-700 disabled:text-gray-600 disabled:cursor-not-allowed"
               aria-label="Attach image"
+              title={imageAttachBlockedReason ?? 'Attach image'}
             >
               <PaperclipIcon className="w-6 h-6" />
             </button>
@@ -211,13 +410,24 @@ const Chat: React.FC<ChatProps> = ({ messages, onSendMessage, isLoading }) => {
             className="flex-1 bg-gray-700 border border-gray-600 rounded-lg p-3 focus:ring-cyan-500 focus:border-cyan-500"
             disabled={isLoading}
           />
-          <button
-            type="submit"
-            disabled={isLoading || (!input.trim() && !image)}
-            className="bg-cyan-600 text-white p-3 rounded-full hover:bg-cyan-500 disabled:bg-gray-600 disabled:cursor-not-allowed transition-colors"
-          >
-            <SendIcon className="w-6 h-6" />
-          </button>
+          {isLoading ? (
+            <button
+              type="button"
+              onClick={onStopGeneration}
+              className="bg-red-600 text-white p-3 rounded-full hover:bg-red-500 transition-colors"
+              aria-label="Stop generating"
+            >
+              <StopIcon className="w-6 h-6" />
+            </button>
+          ) : (
+            <button
+              type="submit"
+              disabled={(!input.trim() && !image) || (!!image && !!imageAttachBlockedReason)}
+              className="bg-cyan-600 text-white p-3 rounded-full hover:bg-cyan-500 disabled:bg-gray-600 disabled:cursor-not-allowed transition-colors"
+            >
+              <SendIcon className="w-6 h-6" />
+            </button>
+          )}
         </form>
       </div>
     </div>
@@ -0,0 +1,181 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { AlertTriangleIcon, CheckIcon, RefreshIcon, SpinnerIcon, XIcon } from './icons';
+import CorsSetupGuide from './CorsSetupGuide';
+import { DIAGNOSTIC_CHECKS, runDiagnostics } from '../services/connectionChecks';
+import type { DiagnosticCheckId, DiagnosticResult } from '../services/connectionChecks';
+import { isAbortError } from '../services/ollamaService';
+import type { OllamaError } from '../services/errors';
+import type { HostAuth, HostProfile } from '../types';
+import { getErrorHelp } from '../utils/errorHelp';
+
+interface ConnectionDiagnosticsProps {
+  host: HostProfile;
+  auth: HostAuth;
+  error: OllamaError;
+  onRetry: () => void;
+  onUseHost: (host: string) => void;
+}
+
+type Results = Partial<Record<DiagnosticCheckId, DiagnosticResult>>;
+
+const DIRECT_CHECKS: DiagnosticCheckId[] = ['mixedContent', 'reachable', 'corsPreflight', 'version', 'tags'];
+
+const Code: React.FC<{ children: React.ReactNode }> = ({ children }) => (
+  <code className="bg-gray-700 px-1 py-0.5 rounded font-mono">{children}</code>
+);
+
+const StatusIcon: React.FC<{ result?: DiagnosticResult; isRunning: boolean }> = ({ result, isRunning }) => {
+  if (!result) {
+    return isRunning
+      ? <SpinnerIcon className="w-5 h-5 text-cyan-400" />
+      : <span className="w-5 h-5 inline-block" />;
+  }
+  switch (result.status) {
+    case 'pass':
+      return <CheckIcon className="w-5 h-5 text-green-400" />;
+    case 'fail':
+      return <XIcon className="w-5 h-5 text-red-400" />;
+    default:
+      return <span className="w-5 h-5 inline-flex items-center justify-center text-gray-500">–</span>;
+  }
+};
+
+/**
+ * Shown in place of the chat when the model list can't be loaded. Runs the
+ * checks from test_ollama.sh in the browser and, for each one that fails,
+ * shows only the fix for that failure.
+ */
+const ConnectionDiagnostics: React.FC<ConnectionDiagnosticsProps> = ({ host, auth, error, onRetry, onUseHost }) => {
+  const [results, setResults] = useState<Results>({});
+  const [isRunning, setIsRunning] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const run = useCallback(async () => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setResults({});
+    setIsRunning(true);
+    try {
+      await runDiagnostics(host, auth, result => setResults(prev => ({ ...prev, [result.id]: result })), controller.signal);
+    } catch (err) {
+      if (!isAbortError(err)) console.error('Diagnostics failed:', err);
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setIsRunning(false);
+      }
+    }
+  }, [host, auth]);
+
+  useEffect(() => {
+    run();
+    return () => abortRef.current?.abort();
+  }, [run]);
+
+  const proxyOrigin = window.location.origin;
+  const directFailed = DIRECT_CHECKS.some(id => results[id]?.status === 'fail');
+  const proxyWorks = results.proxy?.status === 'pass';
+  const help = getErrorHelp(error);
+
+  const renderFix = (result: DiagnosticResult): React.ReactNode => {
+    switch (result.id) {
+      case 'mixedContent':
+        return (
+          <p>
+            Serve Ollama over HTTPS, for example with <Code>setup_ollama_proxy.sh</Code>, and point the host at the
+            {' '}<Code>https://</Code> address. Or open this app over plain HTTP.
+          </p>
+        );
+      case 'reachable':
+        return (
+          <ul className="list-disc list-inside space-y-1">
+            <li>Make sure Ollama is running (<Code>ollama serve</Code>) and that the host and port are right.</li>
+            <li>On another machine, Ollama must listen on all interfaces: <Code>OLLAMA_HOST=0.0.0.0:11434</Code>.</li>
+            <li>Check that no firewall blocks port <Code>11434</Code>.</li>
+            {host.url.startsWith('https:') && (
+              <li>
+                A self-signed certificate fails the same way. Open{' '}
+                <a href={host.url} target="_blank" rel="noopener noreferrer" className="underline text-cyan-400 hover:text-white">{host.url}</a>{' '}
+                in a new tab and accept it.
+              </li>
+            )}
+          </ul>
+        );
+      case 'corsPreflight':
+        return <CorsSetupGuide />;
+      case 'version':
+      case 'tags':
+        return <p>{getErrorHelp(result.error).fix}</p>;
+      case 'proxy':
+        return directFailed ? (
+          <p>
+            Only <Code>npm run dev</Code> and <Code>npm run preview</Code> serve the <Code>/api</Code> proxy. Start them with
+            {' '}<Code>VITE_OLLAMA_HOST={host.url}</Code> to route requests through this page's origin.
+          </p>
+        ) : null;
+    }
+  };
+
+  return (
+    <div className="m-auto max-w-3xl w-full bg-gray-800 text-gray-300 p-4 sm:p-6 rounded-lg border border-yellow-600/50 shadow-lg">
+      <div className="flex items-center mb-4">
+        <AlertTriangleIcon className="h-10 w-10 mr-4 text-yellow-400 flex-shrink-0" />
+        <div>
+          <h3 className="font-bold text-xl text-yellow-300">Connection to Ollama Failed: {help.title}</h3>
+          <p className="text-xs text-gray-500 mt-1">{error.message}</p>
+        </div>
+      </div>
+
+      <ol className="space-y-3 text-sm">
+        {DIAGNOSTIC_CHECKS.map(({ id, label }) => {
+          const result = results[id];
+          const fix = result?.status === 'fail' ? renderFix(result) : null;
+          return (
+            <li key={id} className="p-3 bg-gray-900/50 rounded-lg">
+              <div className="flex items-start gap-3">
+                <StatusIcon result={result} isRunning={isRunning} />
+                <div className="flex-1 min-w-0">
+                  <p className="font-semibold text-gray-200">{label}</p>
+                  {result && <p className="text-xs text-gray-400 break-words">{result.detail}</p>}
+                </div>
+              </div>
+              {fix && <div className="mt-3 pl-8 text-xs text-gray-400">{fix}</div>}
+            </li>
+          );
+        })}
+      </ol>
+
+      {directFailed && proxyWorks && (
+        <div className="mt-4 p-3 bg-cyan-900/30 border border-cyan-700/50 rounded-lg text-sm flex items-center justify-between gap-3">
+          <p className="text-gray-300">The same-origin proxy reaches Ollama, which avoids CORS and mixed-content problems.</p>
+          <button
+            onClick={() => onUseHost(proxyOrigin)}
+            className="flex-shrink-0 bg-cyan-600 hover:bg-cyan-500 text-white font-semibold py-1.5 px-3 rounded-md text-xs transition-colors"
+          >
+            Use {proxyOrigin}
+          </button>
+        </div>
+      )}
+
+      <div className="mt-4 flex gap-2">
+        <button
+          onClick={run}
+          disabled={isRunning}
+          className="flex items-center justify-center gap-2 flex-1 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 text-white font-bold py-2 px-4 rounded-md text-sm transition-colors"
+        >
+          <RefreshIcon className="w-4 h-4" />
+          Run Checks Again
+        </button>
+        <button
+          onClick={onRetry}
+          className="flex-1 bg-cyan-600 hover:bg-cyan-500 text-white font-bold py-2 px-4 rounded-md text-sm transition-colors focus:outline-none focus:ring-2 focus:ring-cyan-500 focus:ring-offset-2 focus:ring-offset-gray-800"
+        >
+          Retry Connection
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ConnectionDiagnostics;
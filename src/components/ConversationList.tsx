@@ -0,0 +1,179 @@
+import React, { useRef, useState } from 'react';
+import type { Conversation } from '../types';
+import { PlusIcon, MessageSquareIcon } from './icons';
+import { downloadFile, readFileAsText } from '../utils/download';
+import { conversationToJson, conversationToMarkdown, exportFileName, parseConversationImport } from '../utils/conversationExport';
+import { conversationToHtml } from '../utils/conversationHtml';
+
+type ExportFormat = 'json' | 'md' | 'html';
+
+interface ConversationListProps {
+  conversations: Conversation[];
+  activeConversationId: string | null;
+  onNewConversation: () => void;
+  onSelectConversation: (id: string) => void;
+  onRenameConversation: (id: string, title: string) => void;
+  onDuplicateConversation: (id: string) => void;
+  onDeleteConversation: (id: string) => void;
+  onImportConversations: (conversations: Conversation[]) => void;
+}
+
+const formatDate = (timestamp: number) => {
+  const date = new Date(timestamp);
+  const isToday = date.toDateString() === new Date().toDateString();
+  return isToday
+    ? date.toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' })
+    : date.toLocaleDateString();
+};
+
+const ConversationList: React.FC<ConversationListProps> = ({
+  conversations,
+  activeConversationId,
+  onNewConversation,
+  onSelectConversation,
+  onRenameConversation,
+  onDuplicateConversation,
+  onDeleteConversation,
+  onImportConversations,
+}) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState('');
+  const [importReport, setImportReport] = useState<string[] | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const startRename = (conversation: Conversation) => {
+    setEditingId(conversation.id);
+    setDraftTitle(conversation.title);
+  };
+
+  const commitRename = () => {
+    if (editingId) {
+      onRenameConversation(editingId, draftTitle);
+    }
+    setEditingId(null);
+  };
+
+  const handleDelete = (conversation: Conversation) => {
+    if (window.confirm(`Delete "${conversation.title}"? This cannot be undone.`)) {
+      onDeleteConversation(conversation.id);
+    }
+  };
+
+  const handleExport = async (conversation: Conversation, format: ExportFormat) => {
+    try {
+      if (format === 'json') {
+        downloadFile(exportFileName(conversation, 'json'), conversationToJson(conversation), 'application/json');
+      } else if (format === 'md') {
+        downloadFile(exportFileName(conversation, 'md'), conversationToMarkdown(conversation), 'text/markdown');
+      } else {
+        downloadFile(exportFileName(conversation, 'html'), await conversationToHtml(conversation), 'text/html');
+      }
+    } catch (err) {
+      console.error('Failed to export conversation:', err);
+      setImportReport([`Export failed: ${(err as Error).message}`]);
+    }
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const { conversations: imported, skipped } = parseConversationImport(await readFileAsText(file));
+      onImportConversations(imported);
+      setImportReport([
+        `Imported ${imported.length} conversation${imported.length === 1 ? '' : 's'}.`,
+        ...skipped.map(s => `Skipped message ${s.index + 1} in "${s.conversation}": ${s.reason}`),
+      ]);
+    } catch (err) {
+      setImportReport([`Import failed: ${(err as Error).message}`]);
+    }
+  };
+
+  return (
+    <div className="mb-4 border-t border-gray-700 pt-4 text-sm">
+      <div className="flex justify-between items-center mb-2">
+        <h3 className="font-medium text-gray-400">Conversations</h3>
+        <div className="flex gap-1">
+          <input type="file" ref={fileInputRef} onChange={handleImport} accept="application/json,.json" className="hidden" />
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="text-xs bg-gray-700 hover:bg-gray-600 text-white py-1 px-2 rounded-md"
+          >
+            Import
+          </button>
+          <button
+            onClick={onNewConversation}
+            className="flex items-center gap-1 text-xs bg-gray-700 hover:bg-gray-600 text-white py-1 px-2 rounded-md"
+          >
+            <PlusIcon className="w-3 h-3" />
+            New
+          </button>
+        </div>
+      </div>
+      {importReport && (
+        <div className="mb-2 p-2 rounded-md bg-gray-900/50 text-xs text-gray-400">
+          <ul className="space-y-1 max-h-24 overflow-y-auto">
+            {importReport.map((line, index) => <li key={index}>{line}</li>)}
+          </ul>
+          <button onClick={() => setImportReport(null)} className="mt-1 text-gray-500 hover:text-white">Dismiss</button>
+        </div>
+      )}
+      <ul className="space-y-1 max-h-64 overflow-y-auto">
+        {conversations.map(conversation => {
+          const isActive = conversation.id === activeConversationId;
+          return (
+            <li key={conversation.id} className={`rounded-md ${isActive ? 'bg-gray-700' : 'hover:bg-gray-700/50'}`}>
+              {editingId === conversation.id ? (
+                <input
+                  autoFocus
+                  value={draftTitle}
+                  onChange={(e) => setDraftTitle(e.target.value)}
+                  onBlur={commitRename}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') commitRename();
+                    if (e.key === 'Escape') setEditingId(null);
+                  }}
+                  className="w-full bg-gray-600 border border-gray-500 rounded-md p-1 text-xs focus:ring-cyan-500 focus:border-cyan-500"
+                />
+              ) : (
+                <button
+                  onClick={() => onSelectConversation(conversation.id)}
+                  className="w-full text-left p-2 flex items-start gap-2"
+                >
+                  <MessageSquareIcon className={`w-4 h-4 mt-0.5 flex-shrink-0 ${isActive ? 'text-cyan-500' : 'text-gray-500'}`} />
+                  <span className="min-w-0">
+                    <span className="block truncate text-gray-200">{conversation.title}</span>
+                    <span className="block truncate text-xs text-gray-500">
+                      {conversation.model ? `${conversation.model.replace(':latest', '')} · ` : ''}{formatDate(conversation.updatedAt)}
+                    </span>
+                  </span>
+                </button>
+              )}
+              {isActive && editingId !== conversation.id && (
+                <div className="flex gap-2 px-2 pb-2 text-xs text-gray-400">
+                  <button onClick={() => startRename(conversation)} className="hover:text-white">Rename</button>
+                  <button onClick={() => onDuplicateConversation(conversation.id)} className="hover:text-white">Duplicate</button>
+                  <button onClick={() => handleDelete(conversation)} className="hover:text-red-400">Delete</button>
+                  <select
+                    value=""
+                    onChange={(e) => handleExport(conversation, e.target.value as ExportFormat)}
+                    className="ml-auto bg-transparent text-gray-400 hover:text-white cursor-pointer"
+                    aria-label="Export conversation"
+                  >
+                    <option value="" disabled>Export</option>
+                    <option value="json">JSON</option>
+                    <option value="md">Markdown</option>
+                    <option value="html">HTML</option>
+                  </select>
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default ConversationList;
@@ -0,0 +1,87 @@
+import React from 'react';
+import type { HostAuth } from '../types';
+
+interface HostAuthFieldsProps {
+  auth: HostAuth;
+  onChange: (auth: HostAuth) => void;
+}
+
+const inputClassName = 'w-full bg-gray-700 border border-gray-600 rounded-md p-1.5 focus:ring-cyan-500 focus:border-cyan-500';
+
+const emptyAuth = (type: HostAuth['type']): HostAuth => {
+  switch (type) {
+    case 'basic':
+      return { type, username: '', password: '' };
+    case 'bearer':
+      return { type, token: '' };
+    case 'header':
+      return { type, name: '', value: '' };
+    default:
+      return { type: 'none' };
+  }
+};
+
+/** Auth type picker plus the inputs that type needs. */
+const HostAuthFields: React.FC<HostAuthFieldsProps> = ({ auth, onChange }) => (
+  <div className="space-y-2">
+    <select
+      value={auth.type}
+      onChange={(e) => onChange(emptyAuth(e.target.value as HostAuth['type']))}
+      className={inputClassName}
+    >
+      <option value="none">No authentication</option>
+      <option value="basic">Basic auth</option>
+      <option value="bearer">Bearer token</option>
+      <option value="header">Custom header</option>
+    </select>
+    {auth.type === 'basic' && (
+      <>
+        <input
+          type="text"
+          autoComplete="username"
+          value={auth.username}
+          onChange={(e) => onChange({ ...auth, username: e.target.value })}
+          placeholder="Username"
+          className={inputClassName}
+        />
+        <input
+          type="password"
+          autoComplete="current-password"
+          value={auth.password}
+          onChange={(e) => onChange({ ...auth, password: e.target.value })}
+          placeholder="Password"
+          className={inputClassName}
+        />
+      </>
+    )}
+    {auth.type === 'bearer' && (
+      <input
+        type="password"
+        value={auth.token}
+        onChange={(e) => onChange({ ...auth, token: e.target.value })}
+        placeholder="Token"
+        className={inputClassName}
+      />
+    )}
+    {auth.type === 'header' && (
+      <>
+        <input
+          type="text"
+          value={auth.name}
+          onChange={(e) => onChange({ ...auth, name: e.target.value })}
+          placeholder="Header name, e.g. X-API-Key"
+          className={inputClassName}
+        />
+        <input
+          type="password"
+          value={auth.value}
+          onChange={(e) => onChange({ ...auth, value: e.target.value })}
+          placeholder="Header value"
+          className={inputClassName}
+        />
+      </>
+    )}
+  </div>
+);
+
+export default HostAuthFields;
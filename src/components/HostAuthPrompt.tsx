@@ -0,0 +1,52 @@
+import React, { useState } from 'react';
+import type { HostAuth, HostProfile } from '../types';
+import type { AuthenticationError } from '../services/errors';
+import { getErrorHelp } from '../utils/errorHelp';
+import HostAuthFields from './HostAuthFields';
+import { AlertTriangleIcon } from './icons';
+
+interface HostAuthPromptProps {
+  host: HostProfile;
+  auth: HostAuth;
+  error: AuthenticationError;
+  onSubmit: (auth: HostAuth) => void;
+}
+
+/** Shown instead of the chat when the active host answers 401/403. */
+const HostAuthPrompt: React.FC<HostAuthPromptProps> = ({ host, auth, error, onSubmit }) => {
+  const [draft, setDraft] = useState<HostAuth>(auth.type === 'none' ? { type: 'basic', username: '', password: '' } : auth);
+  const help = getErrorHelp(error);
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    onSubmit(draft);
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="m-auto max-w-md w-full bg-gray-800 text-gray-300 p-4 sm:p-6 rounded-lg border border-yellow-600/50 shadow-lg"
+    >
+      <div className="flex items-center mb-4">
+        <AlertTriangleIcon className="h-10 w-10 mr-4 text-yellow-400 flex-shrink-0" />
+        <div>
+          <h3 className="font-bold text-xl text-yellow-300">{help.title}</h3>
+          <p className="text-sm text-gray-400">
+            {host.name} (<span className="break-all">{host.url}</span>) answered HTTP {error.status}. {help.fix}
+          </p>
+        </div>
+      </div>
+      <div className="text-sm">
+        <HostAuthFields auth={draft} onChange={setDraft} />
+      </div>
+      <button
+        type="submit"
+        className="w-full mt-4 bg-cyan-600 hover:bg-cyan-500 text-white font-bold py-2 px-4 rounded-md text-sm transition-colors focus:outline-none focus:ring-2 focus:ring-cyan-500 focus:ring-offset-2 focus:ring-offset-gray-800"
+      >
+        Save & Connect
+      </button>
+    </form>
+  );
+};
+
+export default HostAuthPrompt;
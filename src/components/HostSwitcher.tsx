@@ -0,0 +1,182 @@
+import React, { useState } from 'react';
+import type { HostAuth, HostProfile, OllamaModel, ProviderKind } from '../types';
+import { useHostStatus } from '../hooks/useHostStatus';
+import type { HostStatus } from '../hooks/useHostStatus';
+import { createId } from '../utils/id';
+import { NO_AUTH } from '../utils/hostAuth';
+import HostAuthFields from './HostAuthFields';
+import { PencilIcon, PlusIcon, XIcon } from './icons';
+
+interface HostSwitcherProps {
+  hosts: HostProfile[];
+  activeHostId: string;
+  hostAuth: Record<string, HostAuth>;
+  models: OllamaModel[];
+  onSelectHost: (id: string) => void;
+  onSaveHost: (host: HostProfile, auth: HostAuth) => void;
+  onDeleteHost: (id: string) => void;
+}
+
+const STATUS_STYLES: Record<HostStatus, { dot: string; label: string }> = {
+  checking: { dot: 'bg-gray-500 animate-pulse', label: 'Checking…' },
+  online: { dot: 'bg-green-400', label: 'Online' },
+  offline: { dot: 'bg-red-500', label: 'Offline' },
+};
+
+interface HostDraft {
+  id: string | null;
+  name: string;
+  url: string;
+  defaultModel: string;
+  provider: ProviderKind;
+  auth: HostAuth;
+}
+
+const emptyDraft: HostDraft = { id: null, name: '', url: 'http://', defaultModel: '', provider: 'ollama', auth: NO_AUTH };
+
+const HostSwitcher: React.FC<HostSwitcherProps> = ({
+  hosts,
+  activeHostId,
+  hostAuth,
+  models,
+  onSelectHost,
+  onSaveHost,
+  onDeleteHost,
+}) => {
+  const statuses = useHostStatus(hosts, hostAuth);
+  const [draft, setDraft] = useState<HostDraft | null>(null);
+
+  const startEdit = (host: HostProfile) => {
+    setDraft({
+      id: host.id,
+      name: host.name,
+      url: host.url,
+      defaultModel: host.defaultModel ?? '',
+      provider: host.provider ?? 'ollama',
+      auth: hostAuth[host.id] ?? NO_AUTH,
+    });
+  };
+
+  const handleSave = () => {
+    if (!draft) return;
+    const url = draft.url.trim();
+    if (!url) return;
+    onSaveHost({
+      id: draft.id ?? createId(),
+      name: draft.name.trim() || url,
+      url,
+      defaultModel: draft.defaultModel.trim() || undefined,
+      provider: draft.provider,
+    }, draft.auth);
+    setDraft(null);
+  };
+
+  const handleDelete = (host: HostProfile) => {
+    if (!window.confirm(`Remove host "${host.name}"?`)) return;
+    onDeleteHost(host.id);
+  };
+
+  return (
+    <div className="mb-4">
+      <div className="flex items-center justify-between mb-1">
+        <span className="block text-sm font-medium text-gray-400">Host</span>
+        <button
+          onClick={() => setDraft(emptyDraft)}
+          className="text-gray-400 hover:text-white p-1 rounded-md hover:bg-gray-700"
+          title="Add host"
+        >
+          <PlusIcon className="w-4 h-4" />
+        </button>
+      </div>
+
+      <ul className="space-y-1">
+        {hosts.map(host => {
+          const status = STATUS_STYLES[statuses[host.id] ?? 'checking'];
+          const isActive = host.id === activeHostId;
+          return (
+            <li
+              key={host.id}
+              className={`group flex items-center rounded-md text-sm ${isActive ? 'bg-gray-700 text-white' : 'text-gray-300 hover:bg-gray-700/50'}`}
+            >
+              <button onClick={() => onSelectHost(host.id)} className="flex-1 min-w-0 flex items-center gap-2 p-2 text-left">
+                <span className={`w-2 h-2 rounded-full flex-shrink-0 ${status.dot}`} title={status.label} />
+                <span className="min-w-0">
+                  <span className="block truncate">{host.name}</span>
+                  <span className="block truncate text-xs text-gray-500">{host.url}</span>
+                </span>
+              </button>
+              <button
+                onClick={() => startEdit(host)}
+                className="p-1 text-gray-500 hover:text-white opacity-0 group-hover:opacity-100 focus:opacity-100"
+                title="Edit host"
+              >
+                <PencilIcon className="w-3.5 h-3.5" />
+              </button>
+              <button
+                onClick={() => handleDelete(host)}
+                disabled={hosts.length <= 1}
+                className="p-1 mr-1 text-gray-500 hover:text-red-400 opacity-0 group-hover:opacity-100 focus:opacity-100 disabled:hidden"
+                title="Remove host"
+              >
+                <XIcon className="w-3.5 h-3.5" />
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+
+      {draft && (
+        <div className="mt-2 p-2 bg-gray-900/50 rounded-md space-y-2 text-xs">
+          <input
+            type="text"
+            value={draft.name}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            placeholder="Name, e.g. Workstation"
+            className="w-full bg-gray-700 border border-gray-600 rounded-md p-1.5 focus:ring-cyan-500 focus:border-cyan-500"
+          />
+          <select
+            value={draft.provider}
+            onChange={(e) => setDraft({ ...draft, provider: e.target.value as ProviderKind })}
+            className="w-full bg-gray-700 border border-gray-600 rounded-md p-1.5 focus:ring-cyan-500 focus:border-cyan-500"
+          >
+            <option value="ollama">Ollama</option>
+            <option value="openai">OpenAI-compatible (llama.cpp, vLLM, LM Studio)</option>
+          </select>
+          <input
+            type="text"
+            value={draft.url}
+            onChange={(e) => setDraft({ ...draft, url: e.target.value })}
+            placeholder={draft.provider === 'openai' ? 'http://localhost:8080/v1' : 'http://localhost:11434'}
+            className="w-full bg-gray-700 border border-gray-600 rounded-md p-1.5 focus:ring-cyan-500 focus:border-cyan-500"
+          />
+          <input
+            type="text"
+            list="host-default-models"
+            value={draft.defaultModel}
+            onChange={(e) => setDraft({ ...draft, defaultModel: e.target.value })}
+            placeholder="Default model (optional)"
+            className="w-full bg-gray-700 border border-gray-600 rounded-md p-1.5 focus:ring-cyan-500 focus:border-cyan-500"
+          />
+          <datalist id="host-default-models">
+            {models.map(model => <option key={model.name} value={model.name} />)}
+          </datalist>
+          <HostAuthFields auth={draft.auth} onChange={(auth) => setDraft({ ...draft, auth })} />
+          <div className="flex space-x-2">
+            <button
+              onClick={handleSave}
+              disabled={!draft.url.trim()}
+              className="flex-1 bg-cyan-600 hover:bg-cyan-500 text-white py-1 px-2 rounded-md disabled:bg-gray-600 disabled:cursor-not-allowed"
+            >
+              {draft.id ? 'Save' : 'Add Host'}
+            </button>
+            <button onClick={() => setDraft(null)} className="flex-1 bg-gray-700 hover:bg-gray-600 text-white py-1 px-2 rounded-md">
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default HostSwitcher;
@@ -0,0 +1,251 @@
+import React, { useState } from 'react';
+import type { HostAuth, McpCallLogEntry, McpServer } from '../types';
+import type { McpServerState } from '../hooks/useMcpServers';
+import { mcpToolName } from '../services/mcpClient';
+import { createId } from '../utils/id';
+import { NO_AUTH } from '../utils/hostAuth';
+import { formatRelativeTime } from '../utils/format';
+import HostAuthFields from './HostAuthFields';
+import { PencilIcon, PlusIcon, RefreshIcon, SpinnerIcon, XIcon } from './icons';
+
+interface McpServersViewProps {
+  servers: McpServer[];
+  states: Record<string, McpServerState>;
+  authFor: (id: string) => HostAuth;
+  toolsEnabled: boolean;
+  disabledTools: string[];
+  setToolEnabled: (name: string, enabled: boolean) => void;
+  callLog: McpCallLogEntry[];
+  onSaveServer: (server: McpServer, auth: HostAuth) => void;
+  onDeleteServer: (id: string) => void;
+  onRefreshServer: (id: string) => void;
+  onClearCallLog: () => void;
+  onClose: () => void;
+}
+
+interface ServerDraft {
+  id: string | null;
+  name: string;
+  url: string;
+  auth: HostAuth;
+}
+
+const emptyDraft: ServerDraft = { id: null, name: '', url: 'http://', auth: NO_AUTH };
+
+const inputClassName = 'w-full bg-gray-700 border border-gray-600 rounded-md p-1.5 focus:ring-cyan-500 focus:border-cyan-500';
+
+const ServerStatus: React.FC<{ state: McpServerState | undefined }> = ({ state }) => {
+  if (!state || state.status === 'connecting') {
+    return (
+      <span className="flex items-center gap-1 text-gray-400">
+        <SpinnerIcon className="w-3 h-3 animate-spin" /> Connecting…
+      </span>
+    );
+  }
+  if (state.status === 'error') return <span className="text-red-400">Not connected</span>;
+  return <span className="text-green-400">{state.tools.length} tool{state.tools.length === 1 ? '' : 's'}</span>;
+};
+
+/** MCP servers whose tools are offered to the model, which of those tools are on, and a log of the calls made. */
+const McpServersView: React.FC<McpServersViewProps> = ({
+  servers,
+  states,
+  authFor,
+  toolsEnabled,
+  disabledTools,
+  setToolEnabled,
+  callLog,
+  onSaveServer,
+  onDeleteServer,
+  onRefreshServer,
+  onClearCallLog,
+  onClose,
+}) => {
+  const [draft, setDraft] = useState<ServerDraft | null>(null);
+
+  const serverName = (id: string) => servers.find(s => s.id === id)?.name ?? 'Removed server';
+
+  const handleSave = () => {
+    if (!draft) return;
+    const url = draft.url.trim();
+    if (!url) return;
+    onSaveServer({ id: draft.id ?? createId(), name: draft.name.trim() || url, url }, draft.auth);
+    setDraft(null);
+  };
+
+  const handleDelete = (server: McpServer) => {
+    if (!window.confirm(`Remove MCP server "${server.name}"?`)) return;
+    onDeleteServer(server.id);
+  };
+
+  return (
+    <div className="flex flex-col flex-1 bg-gray-900 overflow-hidden">
+      <div className="flex items-center justify-between p-4 border-b border-gray-700">
+        <div>
+          <h2 className="text-lg font-semibold">MCP Servers</h2>
+          <p className="text-xs text-gray-400">
+            Tools from Model Context Protocol servers (streamable HTTP) are offered to tool-capable Ollama models.
+            Servers must allow this page's origin (CORS) and expose the Mcp-Session-Id header.
+          </p>
+        </div>
+        <button onClick={onClose} className="p-2 rounded-md hover:bg-gray-700" aria-label="Close MCP servers">
+          <XIcon className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-6 text-sm">
+        {!toolsEnabled && (
+          <p className="p-2 rounded-md bg-yellow-600/20 text-yellow-300 text-xs">
+            Tool calling is switched off in the sidebar, so none of these tools are offered right now.
+          </p>
+        )}
+
+        <section className="space-y-3">
+          <div className="flex items-center justify-between">
+            <h3 className="font-semibold text-gray-300">Servers</h3>
+            <button
+              onClick={() => setDraft(emptyDraft)}
+              className="flex items-center gap-1 bg-cyan-600 hover:bg-cyan-500 text-white py-1 px-2 rounded-md text-xs"
+            >
+              <PlusIcon className="w-3.5 h-3.5" /> Add server
+            </button>
+          </div>
+
+          {draft && (
+            <div className="p-3 bg-gray-800 rounded-md space-y-2 text-xs max-w-lg">
+              <input
+                type="text"
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                placeholder="Name, e.g. Files"
+                className={inputClassName}
+              />
+              <input
+                type="text"
+                value={draft.url}
+                onChange={(e) => setDraft({ ...draft, url: e.target.value })}
+                placeholder="http://localhost:3000/mcp"
+                className={inputClassName}
+              />
+              <HostAuthFields auth={draft.auth} onChange={(auth) => setDraft({ ...draft, auth })} />
+              <div className="flex space-x-2">
+                <button
+                  onClick={handleSave}
+                  disabled={!draft.url.trim()}
+                  className="flex-1 bg-cyan-600 hover:bg-cyan-500 text-white py-1 px-2 rounded-md disabled:bg-gray-600 disabled:cursor-not-allowed"
+                >
+                  {draft.id ? 'Save' : 'Add Server'}
+                </button>
+                <button onClick={() => setDraft(null)} className="flex-1 bg-gray-700 hover:bg-gray-600 text-white py-1 px-2 rounded-md">
+                  Cancel
+                </button>
+              </div>
+            </div>
+          )}
+
+          {servers.length === 0 && !draft && (
+            <p className="text-gray-500 text-xs">No MCP servers yet.</p>
+          )}
+
+          {servers.map(server => {
+            const state = states[server.id];
+            return (
+              <div key={server.id} className="p-3 bg-gray-800 rounded-md space-y-2">
+                <div className="flex items-start gap-2">
+                  <div className="min-w-0 flex-1">
+                    <p className="font-semibold truncate">{server.name}</p>
+                    <p className="text-xs text-gray-500 truncate">{server.url}</p>
+                  </div>
+                  <span className="text-xs flex-shrink-0"><ServerStatus state={state} /></span>
+                  <button
+                    onClick={() => onRefreshServer(server.id)}
+                    disabled={!state || state.status === 'connecting'}
+                    className="p-1 text-gray-400 hover:text-white rounded-md hover:bg-gray-700 disabled:text-gray-600 disabled:hover:bg-transparent"
+                    aria-label={`Reconnect to ${server.name}`}
+                  >
+                    <RefreshIcon className="w-3.5 h-3.5" />
+                  </button>
+                  <button
+                    onClick={() => setDraft({ id: server.id, name: server.name, url: server.url, auth: authFor(server.id) })}
+                    className="p-1 text-gray-400 hover:text-white rounded-md hover:bg-gray-700"
+                    aria-label={`Edit ${server.name}`}
+                  >
+                    <PencilIcon className="w-3.5 h-3.5" />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(server)}
+                    className="p-1 text-gray-400 hover:text-red-400 rounded-md hover:bg-gray-700"
+                    aria-label={`Remove ${server.name}`}
+                  >
+                    <XIcon className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+                {state?.status === 'error' && <p className="text-xs text-red-400">{state.error}</p>}
+                {state?.status === 'ready' && state.tools.length > 0 && (
+                  <ul className="space-y-1 text-xs">
+                    {state.tools.map(tool => {
+                      const name = mcpToolName(server, tool.name);
+                      return (
+                        <li key={tool.name}>
+                          <label className="flex items-start gap-2">
+                            <input
+                              type="checkbox"
+                              className="mt-0.5"
+                              checked={!disabledTools.includes(name)}
+                              onChange={(e) => setToolEnabled(name, e.target.checked)}
+                            />
+                            <span className="min-w-0">
+                              <span className="font-mono text-gray-200">{tool.name}</span>
+                              {tool.description && <span className="block text-gray-400">{tool.description}</span>}
+                            </span>
+                          </label>
+                        </li>
+                      );
+                    })}
+                  </ul>
+                )}
+              </div>
+            );
+          })}
+        </section>
+
+        <section className="space-y-3">
+          <div className="flex items-center justify-between">
+            <h3 className="font-semibold text-gray-300">Call log</h3>
+            {callLog.length > 0 && (
+              <button onClick={onClearCallLog} className="text-xs text-gray-400 hover:text-white">Clear</button>
+            )}
+          </div>
+          {callLog.length === 0 ? (
+            <p className="text-gray-500 text-xs">No tool calls yet.</p>
+          ) : (
+            <ul className="space-y-1 text-xs">
+              {callLog.map(entry => (
+                <li key={entry.id}>
+                  <details className="bg-gray-800 rounded-md">
+                    <summary className="cursor-pointer px-2 py-1.5 flex items-center gap-2">
+                      <span className={entry.status === 'done' ? 'text-green-400' : 'text-red-400'}>
+                        {entry.status === 'done' ? 'OK' : 'Failed'}
+                      </span>
+                      <span className="font-mono text-gray-200 truncate">{entry.tool}</span>
+                      <span className="text-gray-500 truncate">on {serverName(entry.serverId)}</span>
+                      <span className="ml-auto flex-shrink-0 text-gray-500">
+                        {entry.durationMs} ms · {formatRelativeTime(entry.startedAt)}
+                      </span>
+                    </summary>
+                    <div className="px-2 pb-2 space-y-2">
+                      <pre className="whitespace-pre-wrap break-words bg-gray-900/60 rounded p-1.5 font-mono text-gray-300">{JSON.stringify(entry.arguments, null, 2)}</pre>
+                      <pre className="whitespace-pre-wrap break-words bg-gray-900/60 rounded p-1.5 font-mono text-gray-300 max-h-48 overflow-y-auto">{entry.result}</pre>
+                    </div>
+                  </details>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+};
+
+export default McpServersView;
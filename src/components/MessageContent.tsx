@@ -0,0 +1,52 @@
+import React, { useState } from 'react';
+import { ClipboardIcon, CheckIcon } from './icons';
+import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
+import { atomDark } from 'react-syntax-highlighter/dist/esm/styles/prism';
+import { splitMessageParts } from '../utils/messageParts';
+
+const CodeBlock = ({ language, code }: { language: string, code: string }) => {
+    const [copied, setCopied] = useState(false);
+
+    const handleCopy = () => {
+        if (copied) return;
+        navigator.clipboard.writeText(code).then(() => {
+            setCopied(true);
+            setTimeout(() => setCopied(false), 2000);
+        }).catch(err => {
+            console.error('Failed to copy code: ', err);
+        });
+    };
+
+    return (
+        <div className="my-2 bg-gray-900 rounded-md overflow-hidden border border-gray-700">
+            <div className="flex justify-between items-center px-4 py-1 bg-gray-800 text-xs text-gray-400">
+                <span>{language}</span>
+                <button onClick={handleCopy} className="flex items-center gap-1.5 p-1 rounded-md hover:bg-gray-700">
+                    {copied ? <CheckIcon className="w-4 h-4 text-green-400" /> : <ClipboardIcon className="w-4 h-4" />}
+                    <span className="text-xs">{copied ? 'Copied!' : 'Copy code'}</span>
+                </button>
+            </div>
+            <SyntaxHighlighter
+                language={language}
+                style={atomDark}
+                customStyle={{ margin: 0, padding: '1rem', backgroundColor: '#1E1E1E' }}
+                codeTagProps={{ style: { fontSize: '0.875rem' } }}
+            >
+                {code}
+            </SyntaxHighlighter>
+        </div>
+    );
+};
+
+/** Renders assistant Markdown: plain paragraphs plus highlighted fenced code blocks. */
+const MessageContent: React.FC<{ content: string }> = ({ content }) => (
+  <div>
+    {splitMessageParts(content).map((part, index) =>
+      part.type === 'code'
+        ? <CodeBlock key={index} language={part.language} code={part.code} />
+        : <p key={index} className="whitespace-pre-wrap">{part.text}</p>
+    )}
+  </div>
+);
+
+export default MessageContent;
@@ -0,0 +1,182 @@
+import React, { useMemo, useState } from 'react';
+import type { CatalogModel, HostProfile, ModelCapability, OllamaModel, PullJob } from '../types';
+import { isActivePull } from '../hooks/usePullQueue';
+import { MODEL_CATALOG, isTagInstalled, parseHuggingFaceReference, searchCatalog } from '../utils/modelCatalog';
+import { CheckIcon, SpinnerIcon, XIcon } from './icons';
+
+interface ModelCatalogViewProps {
+  host: HostProfile;
+  models: OllamaModel[];
+  pullJobs: PullJob[];
+  onPull: (model: string) => void;
+  onClose: () => void;
+}
+
+const CAPABILITY_FILTERS: { label: string; value: ModelCapability | '' }[] = [
+  { label: 'All capabilities', value: '' },
+  { label: 'Vision', value: 'vision' },
+  { label: 'Tools', value: 'tools' },
+  { label: 'Thinking', value: 'thinking' },
+  { label: 'Embedding', value: 'embedding' },
+];
+
+const CAPABILITY_CLASSES: Record<ModelCapability, string> = {
+  vision: 'bg-purple-900/50 text-purple-300',
+  tools: 'bg-cyan-900/50 text-cyan-300',
+  thinking: 'bg-yellow-900/50 text-yellow-300',
+  embedding: 'bg-gray-700 text-gray-300',
+};
+
+const formatSize = (sizeGB?: number): string =>
+  sizeGB === undefined ? '—' : sizeGB < 1 ? `${Math.round(sizeGB * 1000)} MB` : `${sizeGB} GB`;
+
+const PullButton: React.FC<{ name: string; isInstalled: boolean; job?: PullJob; onPull: (name: string) => void }> = ({ name, isInstalled, job, onPull }) => {
+  if (job && isActivePull(job)) {
+    return (
+      <span className="inline-flex items-center gap-1 text-xs text-cyan-400">
+        <SpinnerIcon className="w-3 h-3 animate-spin" />
+        {job.status === 'queued' ? 'Queued' : 'Pulling'}
+      </span>
+    );
+  }
+  return (
+    <button
+      onClick={() => onPull(name)}
+      className={`text-xs py-1 px-2 rounded-md text-white ${isInstalled ? 'bg-gray-700 hover:bg-gray-600' : 'bg-cyan-600 hover:bg-cyan-500'}`}
+      title={isInstalled ? 'Pull again to update' : `Pull ${name}`}
+    >
+      {isInstalled ? 'Re-pull' : 'Pull'}
+    </button>
+  );
+};
+
+const CatalogCard: React.FC<{ model: CatalogModel; installed: OllamaModel[]; jobFor: (name: string) => PullJob | undefined; onPull: (name: string) => void }> = ({
+  model,
+  installed,
+  jobFor,
+  onPull,
+}) => {
+  const installedCount = model.tags.filter(t => isTagInstalled(model, t.tag, installed)).length;
+  return (
+    <li className="p-4 bg-gray-800 rounded-lg border border-gray-700">
+      <div className="flex flex-wrap items-baseline gap-2">
+        <h3 className="font-semibold text-gray-100">{model.name}</h3>
+        {model.family && <span className="text-xs text-gray-500">{model.family}</span>}
+        {model.capabilities.map(capability => (
+          <span key={capability} className={`text-xs px-1.5 py-0.5 rounded ${CAPABILITY_CLASSES[capability]}`}>{capability}</span>
+        ))}
+        {installedCount > 0 && <span className="text-xs text-green-400">{installedCount} installed</span>}
+      </div>
+      {model.description && <p className="text-sm text-gray-400 mt-1">{model.description}</p>}
+      <table className="w-full text-xs mt-3">
+        <thead className="text-gray-500 text-left">
+          <tr>
+            <th className="py-1 font-medium">Tag</th>
+            <th className="py-1 font-medium">Parameters</th>
+            <th className="py-1 font-medium">Quantization</th>
+            <th className="py-1 font-medium text-right">Download</th>
+            <th className="py-1" />
+          </tr>
+        </thead>
+        <tbody>
+          {model.tags.map(({ tag, parameters, quantization, sizeGB }) => {
+            const fullName = `${model.name}:${tag}`;
+            const isInstalled = isTagInstalled(model, tag, installed);
+            return (
+              <tr key={tag} className="border-t border-gray-700/50">
+                <td className="py-1.5 font-mono text-gray-200">
+                  {tag}
+                  {model.latest === tag && <span className="ml-1 text-gray-500">(latest)</span>}
+                  {isInstalled && <CheckIcon className="inline w-3.5 h-3.5 ml-1 text-green-400" />}
+                </td>
+                <td className="py-1.5 text-gray-400">{parameters ?? '—'}</td>
+                <td className="py-1.5 text-gray-400">{quantization ?? '—'}</td>
+                <td className="py-1.5 text-right text-gray-400 whitespace-nowrap">~{formatSize(sizeGB)}</td>
+                <td className="py-1.5 pl-2 text-right">
+                  <PullButton name={fullName} isInstalled={isInstalled} job={jobFor(fullName)} onPull={onPull} />
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </li>
+  );
+};
+
+/**
+ * Browses the bundled catalog (src/data/modelCatalog.json) so models can be
+ * pulled by exact tag instead of typed by hand. Hugging Face GGUF references
+ * typed into the search box can be pulled directly.
+ */
+const ModelCatalogView: React.FC<ModelCatalogViewProps> = ({ host, models, pullJobs, onPull, onClose }) => {
+  const [query, setQuery] = useState('');
+  const [capability, setCapability] = useState<ModelCapability | ''>('');
+
+  const results = useMemo(() => searchCatalog(query, capability), [query, capability]);
+  const huggingFaceRef = parseHuggingFaceReference(query);
+
+  // The newest job for a name, so a re-pull shows its own state rather than an old failure.
+  const jobFor = (name: string) => [...pullJobs].reverse().find(job => job.hostId === host.id && job.model === name);
+
+  return (
+    <div className="flex flex-col flex-1 bg-gray-900 overflow-hidden">
+      <div className="flex items-center justify-between p-4 border-b border-gray-700">
+        <div>
+          <h2 className="text-lg font-semibold">Model Catalog</h2>
+          <p className="text-xs text-gray-400">{MODEL_CATALOG.length} models available to pull to {host.name}; sizes are approximate</p>
+        </div>
+        <button onClick={onClose} className="p-2 rounded-md hover:bg-gray-700" aria-label="Close model catalog">
+          <XIcon className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div className="p-4 border-b border-gray-700 flex flex-wrap items-center gap-2 text-sm">
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search models, or paste an hf.co/… GGUF reference"
+          autoFocus
+          className="flex-grow min-w-[10rem] bg-gray-700 border border-gray-600 rounded-md p-1.5 focus:ring-cyan-500 focus:border-cyan-500"
+        />
+        <select
+          value={capability}
+          onChange={(e) => setCapability(e.target.value as ModelCapability | '')}
+          className="bg-gray-700 border border-gray-600 rounded-md p-1.5 focus:ring-cyan-500 focus:border-cyan-500"
+        >
+          {CAPABILITY_FILTERS.map(filter => <option key={filter.label} value={filter.value}>{filter.label}</option>)}
+        </select>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4">
+        {huggingFaceRef && (
+          <div className="mb-4 p-4 bg-gray-800 rounded-lg border border-cyan-700/50 flex items-center justify-between gap-3">
+            <div className="min-w-0">
+              <p className="font-mono text-sm text-gray-200 break-all">{huggingFaceRef}</p>
+              <p className="text-xs text-gray-400">
+                GGUF model from Hugging Face. Add <code className="font-mono">:Q4_K_M</code> or another quantization to pick a file.
+              </p>
+            </div>
+            <PullButton
+              name={huggingFaceRef}
+              isInstalled={models.some(m => m.name === huggingFaceRef || m.name === `${huggingFaceRef}:latest`)}
+              job={jobFor(huggingFaceRef)}
+              onPull={onPull}
+            />
+          </div>
+        )}
+        <ul className="space-y-4">
+          {results.map(model => (
+            <CatalogCard key={model.name} model={model} installed={models} jobFor={jobFor} onPull={onPull} />
+          ))}
+        </ul>
+        {results.length === 0 && !huggingFaceRef && (
+          <p className="text-center text-sm text-gray-500 mt-8">No catalog models match. Add more to src/data/modelCatalog.json.</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ModelCatalogView;
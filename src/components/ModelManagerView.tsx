@@ -0,0 +1,378 @@
+import React, { useMemo, useState } from 'react';
+import type { Conversation, HostAuth, HostProfile, OllamaModel, PullJob } from '../types';
+import { OllamaService } from '../services/ollamaService';
+import { isActivePull } from '../hooks/usePullQueue';
+import type { PullJobOptions } from '../hooks/usePullQueue';
+import { describeError } from '../utils/errorHelp';
+import { formatBytes, formatRelativeTime } from '../utils/format';
+import { lastUsedByModel } from '../utils/modelUsage';
+import { createId } from '../utils/id';
+import { SpinnerIcon, XIcon } from './icons';
+
+interface ModelManagerViewProps {
+  host: HostProfile;
+  auth: HostAuth;
+  models: OllamaModel[];
+  conversations: Conversation[];
+  pullJobs: PullJob[];
+  onPull: (model: string, options: PullJobOptions) => void;
+  onModelsChanged: () => void;
+  onClose: () => void;
+}
+
+type SortKey = 'name' | 'family' | 'size' | 'modified' | 'lastUsed';
+
+const DAY_MS = 86_400_000;
+
+// "Unused" filter: models with no reply on this host in the saved conversations for this long.
+const UNUSED_FILTERS: { label: string; days: number | null }[] = [
+  { label: 'Any usage', days: null },
+  { label: 'Unused for 30 days', days: 30 },
+  { label: 'Unused for 90 days', days: 90 },
+  { label: 'Never used', days: Infinity },
+];
+
+const GB = 1024 ** 3;
+
+// "Update models" skips anything larger than this, since re-pulling checks every layer.
+const UPDATE_SIZE_LIMITS: { label: string; bytes: number }[] = [
+  { label: 'Any size', bytes: Infinity },
+  { label: 'Up to 2 GB', bytes: 2 * GB },
+  { label: 'Up to 5 GB', bytes: 5 * GB },
+  { label: 'Up to 10 GB', bytes: 10 * GB },
+  { label: 'Up to 20 GB', bytes: 20 * GB },
+];
+
+interface UpdateRun {
+  batchId: string;
+  skipped: string[];
+  alreadyPulling: string[];
+}
+
+const COLUMNS: { key: SortKey; label: string; className?: string }[] = [
+  { key: 'name', label: 'Model' },
+  { key: 'family', label: 'Family' },
+  { key: 'size', label: 'Size', className: 'text-right' },
+  { key: 'modified', label: 'Modified' },
+  { key: 'lastUsed', label: 'Last used' },
+];
+
+const ModelManagerView: React.FC<ModelManagerViewProps> = ({ host, auth, models, conversations, pullJobs, onPull, onModelsChanged, onClose }) => {
+  const [query, setQuery] = useState('');
+  const [family, setFamily] = useState('');
+  const [unusedFilter, setUnusedFilter] = useState(0);
+  const [sort, setSort] = useState<{ key: SortKey; descending: boolean }>({ key: 'size', descending: true });
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [copySource, setCopySource] = useState<string | null>(null);
+  const [copyName, setCopyName] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [updateSizeLimit, setUpdateSizeLimit] = useState(0);
+  const [updateRun, setUpdateRun] = useState<UpdateRun | null>(null);
+
+  const lastUsed = useMemo(() => lastUsedByModel(conversations, host.id), [conversations, host.id]);
+  const families = useMemo(
+    () => [...new Set(models.map(m => m.details?.family).filter((f): f is string => !!f))].sort(),
+    [models]
+  );
+  const totalSize = models.reduce((sum, m) => sum + m.size, 0);
+
+  const visibleModels = useMemo(() => {
+    const terms = query.trim().toLowerCase();
+    const unusedDays = UNUSED_FILTERS[unusedFilter].days;
+    const now = Date.now();
+    const filtered = models.filter(model => {
+      if (family && model.details?.family !== family) return false;
+      if (terms && !`${model.name} ${model.details?.family ?? ''}`.toLowerCase().includes(terms)) return false;
+      if (unusedDays !== null) {
+        const usedAt = lastUsed.get(model.name);
+        if (unusedDays === Infinity) return usedAt === undefined;
+        if (usedAt !== undefined && now - usedAt < unusedDays * DAY_MS) return false;
+      }
+      return true;
+    });
+    const value = (model: OllamaModel): string | number => {
+      switch (sort.key) {
+        case 'name': return model.name;
+        case 'family': return model.details?.family ?? '';
+        case 'size': return model.size;
+        case 'modified': return Date.parse(model.modified_at) || 0;
+        case 'lastUsed': return lastUsed.get(model.name) ?? 0;
+      }
+    };
+    return filtered.sort((a, b) => {
+      const x = value(a);
+      const y = value(b);
+      const order = typeof x === 'string' ? x.localeCompare(y as string) : x - (y as number);
+      return sort.descending ? -order : order;
+    });
+  }, [models, query, family, unusedFilter, sort, lastUsed]);
+
+  const selectedModels = models.filter(m => selected.has(m.name));
+  const selectedSize = selectedModels.reduce((sum, m) => sum + m.size, 0);
+  const allVisibleSelected = visibleModels.length > 0 && visibleModels.every(m => selected.has(m.name));
+
+  const toggleSort = (key: SortKey) => {
+    setSort(prev => (prev.key === key ? { key, descending: !prev.descending } : { key, descending: key !== 'name' && key !== 'family' }));
+  };
+
+  const toggleSelected = (name: string) => {
+    const next = new Set(selected);
+    if (next.has(name)) {
+      next.delete(name);
+    } else {
+      next.add(name);
+    }
+    setSelected(next);
+  };
+
+  const toggleAllVisible = () => {
+    const next = new Set(selected);
+    visibleModels.forEach(m => (allVisibleSelected ? next.delete(m.name) : next.add(m.name)));
+    setSelected(next);
+  };
+
+  const handleDelete = async () => {
+    if (selectedModels.length === 0) return;
+    const names = selectedModels.map(m => `  ${m.name}`).join('\n');
+    if (!window.confirm(`Delete ${selectedModels.length} model${selectedModels.length === 1 ? '' : 's'} (${formatBytes(selectedSize)}) from ${host.name}?\n\n${names}`)) return;
+
+    setIsBusy(true);
+    const service = new OllamaService(host.url, auth);
+    const failures: string[] = [];
+    for (const model of selectedModels) {
+      try {
+        await service.deleteModel(model.name);
+      } catch (err) {
+        failures.push(`${model.name}: ${describeError(err)}`);
+      }
+    }
+    setIsBusy(false);
+    setSelected(new Set());
+    setMessage(failures.length > 0
+      ? `Could not delete ${failures.join('; ')}`
+      : `Deleted ${selectedModels.length} model${selectedModels.length === 1 ? '' : 's'}.`);
+    onModelsChanged();
+  };
+
+  // Re-pulls every installed model through the queue; the queue compares digests when each pull ends.
+  const handleUpdateAll = () => {
+    const limit = UPDATE_SIZE_LIMITS[updateSizeLimit].bytes;
+    const alreadyPulling = new Set(pullJobs.filter(job => job.hostId === host.id && isActivePull(job)).map(job => job.model));
+    const batchId = createId();
+    const skipped: string[] = [];
+    const pulling: string[] = [];
+    for (const model of models) {
+      if (model.size > limit) {
+        skipped.push(model.name);
+      } else if (alreadyPulling.has(model.name)) {
+        pulling.push(model.name);
+      } else {
+        onPull(model.name, { batchId, previousDigest: model.digest });
+      }
+    }
+    setUpdateRun({ batchId, skipped, alreadyPulling: pulling });
+  };
+
+  const updateJobs = updateRun ? pullJobs.filter(job => job.batchId === updateRun.batchId) : [];
+  const updatePending = updateJobs.filter(isActivePull).length;
+  const updateGroups: { label: string; className: string; names: string[] }[] = [
+    { label: 'Updated', className: 'text-cyan-400', names: updateJobs.filter(j => j.status === 'done' && j.digest !== undefined && j.digest !== j.previousDigest).map(j => j.model) },
+    { label: 'Already up to date', className: 'text-green-400', names: updateJobs.filter(j => j.status === 'done' && j.digest !== undefined && j.digest === j.previousDigest).map(j => j.model) },
+    { label: 'Pulled, version unknown', className: 'text-gray-300', names: updateJobs.filter(j => j.status === 'done' && j.digest === undefined).map(j => j.model) },
+    { label: 'Failed', className: 'text-red-400', names: updateJobs.filter(j => j.status === 'failed').map(j => `${j.model} (${j.message})`) },
+    { label: 'Cancelled', className: 'text-gray-400', names: updateJobs.filter(j => j.status === 'cancelled').map(j => j.model) },
+    { label: 'Skipped as too large', className: 'text-gray-400', names: updateRun?.skipped ?? [] },
+    // Pulls started before this run; their outcome shows in the download queue.
+    { label: 'Already pulling', className: 'text-gray-400', names: updateRun?.alreadyPulling ?? [] },
+  ];
+
+  const startCopy = (name: string) => {
+    setCopySource(name);
+    setCopyName(`${name.replace(/:latest$/, '')}-copy`);
+  };
+
+  const handleCopy = async () => {
+    const destination = copyName.trim();
+    if (!copySource || !destination) return;
+    if (models.some(m => m.name === destination || m.name === `${destination}:latest`)) {
+      setMessage(`A model named "${destination}" already exists.`);
+      return;
+    }
+    setIsBusy(true);
+    try {
+      await new OllamaService(host.url, auth).copyModel(copySource, destination);
+      setMessage(`Copied ${copySource} to ${destination}.`);
+      setCopySource(null);
+      onModelsChanged();
+    } catch (err) {
+      setMessage(`Copy failed: ${describeError(err)}`);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col flex-1 bg-gray-900 overflow-hidden">
+      <div className="flex items-center justify-between p-4 border-b border-gray-700">
+        <div>
+          <h2 className="text-lg font-semibold">Manage Models</h2>
+          <p className="text-xs text-gray-400">
+            {models.length} model{models.length === 1 ? '' : 's'} using {formatBytes(totalSize)} on {host.name}
+          </p>
+        </div>
+        <button onClick={onClose} className="p-2 rounded-md hover:bg-gray-700" aria-label="Close model manager">
+          <XIcon className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div className="p-4 border-b border-gray-700 flex flex-wrap items-center gap-2 text-sm">
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Filter by name or family"
+          className="flex-grow min-w-[10rem] bg-gray-700 border border-gray-600 rounded-md p-1.5 focus:ring-cyan-500 focus:border-cyan-500"
+        />
+        <select
+          value={family}
+          onChange={(e) => setFamily(e.target.value)}
+          className="bg-gray-700 border border-gray-600 rounded-md p-1.5 focus:ring-cyan-500 focus:border-cyan-500"
+        >
+          <option value="">All families</option>
+          {families.map(f => <option key={f} value={f}>{f}</option>)}
+        </select>
+        <select
+          value={unusedFilter}
+          onChange={(e) => setUnusedFilter(Number(e.target.value))}
+          className="bg-gray-700 border border-gray-600 rounded-md p-1.5 focus:ring-cyan-500 focus:border-cyan-500"
+        >
+          {UNUSED_FILTERS.map((filter, index) => <option key={filter.label} value={index}>{filter.label}</option>)}
+        </select>
+        <button
+          onClick={handleDelete}
+          disabled={selectedModels.length === 0 || isBusy}
+          className="bg-red-700 hover:bg-red-600 text-white py-1.5 px-3 rounded-md disabled:bg-gray-700 disabled:text-gray-500 disabled:cursor-not-allowed"
+        >
+          Delete {selectedModels.length > 0 ? `${selectedModels.length} (${formatBytes(selectedSize)})` : 'selected'}
+        </button>
+        {isBusy && <SpinnerIcon className="w-4 h-4 animate-spin text-cyan-400" />}
+        <div className="flex items-center gap-2 ml-auto">
+          <select
+            value={updateSizeLimit}
+            onChange={(e) => setUpdateSizeLimit(Number(e.target.value))}
+            className="bg-gray-700 border border-gray-600 rounded-md p-1.5 focus:ring-cyan-500 focus:border-cyan-500"
+            aria-label="Largest model to update"
+          >
+            {UPDATE_SIZE_LIMITS.map((limit, index) => <option key={limit.label} value={index}>{limit.label}</option>)}
+          </select>
+          <button
+            onClick={handleUpdateAll}
+            disabled={models.length === 0 || updatePending > 0}
+            className="bg-cyan-600 hover:bg-cyan-500 text-white py-1.5 px-3 rounded-md disabled:bg-gray-700 disabled:text-gray-500 disabled:cursor-not-allowed"
+          >
+            Update models
+          </button>
+        </div>
+      </div>
+
+      {message && <p className="px-4 pt-3 text-xs text-gray-300">{message}</p>}
+
+      {updateRun && (
+        <div className="mx-4 mt-3 p-3 bg-gray-800 border border-gray-700 rounded-md text-xs space-y-1">
+          <div className="flex items-center justify-between">
+            <span className="font-semibold text-gray-200">
+              {updatePending > 0
+                ? `Updating… ${updateJobs.length - updatePending} of ${updateJobs.length} checked`
+                : `Update finished: ${updateJobs.length} model${updateJobs.length === 1 ? '' : 's'} checked`}
+            </span>
+            {updatePending === 0 && (
+              <button onClick={() => setUpdateRun(null)} className="text-gray-500 hover:text-white" aria-label="Dismiss update report">
+                <XIcon className="w-4 h-4" />
+              </button>
+            )}
+          </div>
+          {updateGroups.filter(group => group.names.length > 0).map(group => (
+            <p key={group.label}>
+              <span className={`font-medium ${group.className}`}>{group.label} ({group.names.length}):</span>{' '}
+              <span className="text-gray-400 break-words">{group.names.join(', ')}</span>
+            </p>
+          ))}
+        </div>
+      )}
+
+      <div className="flex-1 overflow-auto p-4">
+        <table className="w-full text-sm">
+          <thead className="text-xs text-gray-400 text-left">
+            <tr className="border-b border-gray-700">
+              <th className="p-2 w-8">
+                <input type="checkbox" checked={allVisibleSelected} onChange={toggleAllVisible} aria-label="Select all shown" />
+              </th>
+              {COLUMNS.map(({ key, label, className }) => (
+                <th key={key} className={`p-2 font-medium ${className ?? ''}`}>
+                  <button onClick={() => toggleSort(key)} className="hover:text-white">
+                    {label}{sort.key === key ? (sort.descending ? ' ↓' : ' ↑') : ''}
+                  </button>
+                </th>
+              ))}
+              <th className="p-2" />
+            </tr>
+          </thead>
+          <tbody>
+            {visibleModels.map(model => {
+              const usedAt = lastUsed.get(model.name);
+              const modifiedAt = Date.parse(model.modified_at);
+              return (
+                <tr key={model.name} className={`border-b border-gray-800 ${selected.has(model.name) ? 'bg-cyan-600/10' : ''}`}>
+                  <td className="p-2">
+                    <input type="checkbox" checked={selected.has(model.name)} onChange={() => toggleSelected(model.name)} aria-label={`Select ${model.name}`} />
+                  </td>
+                  <td className="p-2">
+                    <div className="font-medium text-gray-200 break-all">{model.name}</div>
+                    {model.details && (
+                      <div className="text-xs text-gray-500">{model.details.parameter_size} · {model.details.quantization_level}</div>
+                    )}
+                    {copySource === model.name && (
+                      <div className="flex gap-2 mt-2">
+                        <input
+                          type="text"
+                          value={copyName}
+                          onChange={(e) => setCopyName(e.target.value)}
+                          onKeyDown={(e) => e.key === 'Enter' && handleCopy()}
+                          autoFocus
+                          className="flex-grow min-w-0 bg-gray-700 border border-gray-600 rounded-md p-1 text-xs focus:ring-cyan-500 focus:border-cyan-500"
+                        />
+                        <button onClick={handleCopy} disabled={isBusy || !copyName.trim()} className="bg-cyan-600 hover:bg-cyan-500 text-white text-xs py-1 px-2 rounded-md disabled:bg-gray-600">
+                          Copy
+                        </button>
+                        <button onClick={() => setCopySource(null)} className="bg-gray-700 hover:bg-gray-600 text-white text-xs py-1 px-2 rounded-md">
+                          Cancel
+                        </button>
+                      </div>
+                    )}
+                  </td>
+                  <td className="p-2 text-gray-400">{model.details?.family ?? '—'}</td>
+                  <td className="p-2 text-right text-gray-300 whitespace-nowrap">{formatBytes(model.size)}</td>
+                  <td className="p-2 text-gray-400 whitespace-nowrap" title={model.modified_at}>
+                    {Number.isNaN(modifiedAt) ? '—' : formatRelativeTime(modifiedAt)}
+                  </td>
+                  <td className={`p-2 whitespace-nowrap ${usedAt === undefined ? 'text-yellow-500' : 'text-gray-400'}`}>
+                    {usedAt === undefined ? 'Never' : formatRelativeTime(usedAt)}
+                  </td>
+                  <td className="p-2 text-right">
+                    <button onClick={() => startCopy(model.name)} disabled={isBusy} className="text-xs text-gray-400 hover:text-white">
+                      Copy to…
+                    </button>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+        {visibleModels.length === 0 && <p className="text-center text-sm text-gray-500 mt-8">No models match these filters.</p>}
+      </div>
+    </div>
+  );
+};
+
+export default ModelManagerView;
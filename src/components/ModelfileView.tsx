@@ -0,0 +1,245 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import type { HostAuth, HostProfile, OllamaModel, OllamaModelInfo, OllamaPullStatus } from '../types';
+import { OllamaService, isAbortError } from '../services/ollamaService';
+import { describeError } from '../utils/errorHelp';
+import { highlightModelfile, parseModelfile, toCreateRequest, withBaseModel } from '../utils/modelfile';
+import type { ModelfileTokenKind } from '../utils/modelfile';
+import { SpinnerIcon, XIcon } from './icons';
+
+interface ModelfileViewProps {
+  host: HostProfile;
+  auth: HostAuth;
+  models: OllamaModel[];
+  initialModel: string;
+  onModelsChanged: () => void;
+  onClose: () => void;
+}
+
+type Tab = 'edit' | 'modelfile' | 'template' | 'parameters' | 'license';
+
+const TABS: { id: Tab; label: string }[] = [
+  { id: 'edit', label: 'Create from this' },
+  { id: 'modelfile', label: 'Modelfile' },
+  { id: 'template', label: 'Template' },
+  { id: 'parameters', label: 'Parameters' },
+  { id: 'license', label: 'License' },
+];
+
+const TOKEN_CLASSES: Record<ModelfileTokenKind, string> = {
+  comment: 'text-gray-500 italic',
+  instruction: 'text-cyan-400 font-semibold',
+  parameter: 'text-yellow-300',
+  string: 'text-green-300',
+  text: 'text-gray-200',
+  error: 'text-red-400 underline decoration-wavy',
+};
+
+// Shared by the textarea and the highlighted copy under it so the characters line up.
+const EDITOR_TEXT = 'font-mono text-xs leading-5 p-3 whitespace-pre-wrap break-words';
+
+const Highlighted: React.FC<{ text: string }> = ({ text }) => (
+  <>
+    {highlightModelfile(text).map((line, lineIndex) => (
+      <React.Fragment key={lineIndex}>
+        {lineIndex > 0 && '\n'}
+        {line.map((token, tokenIndex) => (
+          <span key={tokenIndex} className={TOKEN_CLASSES[token.kind]}>{token.text}</span>
+        ))}
+      </React.Fragment>
+    ))}
+    {/* Keeps a trailing newline's empty line tall enough to match the textarea. */}
+    {'\n '}
+  </>
+);
+
+// A transparent textarea over a highlighted <pre>; the pre follows the textarea's scroll position.
+const ModelfileEditor: React.FC<{ value: string; onChange: (value: string) => void; disabled: boolean }> = ({ value, onChange, disabled }) => {
+  const preRef = useRef<HTMLPreElement>(null);
+  return (
+    <div className="relative flex-1 min-h-[16rem] bg-gray-800 border border-gray-700 rounded-md overflow-hidden">
+      <pre ref={preRef} aria-hidden className={`${EDITOR_TEXT} absolute inset-0 m-0 overflow-hidden pointer-events-none`}>
+        <Highlighted text={value} />
+      </pre>
+      <textarea
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        onScroll={(e) => {
+          if (preRef.current) preRef.current.scrollTop = e.currentTarget.scrollTop;
+        }}
+        disabled={disabled}
+        spellCheck={false}
+        aria-label="Modelfile"
+        className={`${EDITOR_TEXT} absolute inset-0 w-full h-full resize-none bg-transparent text-transparent caret-white focus:outline-none focus:ring-1 focus:ring-cyan-500`}
+      />
+    </div>
+  );
+};
+
+const describeProgress = ({ status, total, completed }: OllamaPullStatus): string =>
+  total && completed !== undefined ? `${status} ${Math.round((completed / total) * 100)}%` : status;
+
+/**
+ * Shows the Modelfile, template, parameters and license of an installed model,
+ * and creates a new model from an edited copy of its Modelfile via /api/create.
+ */
+const ModelfileView: React.FC<ModelfileViewProps> = ({ host, auth, models, initialModel, onModelsChanged, onClose }) => {
+  const [baseModel, setBaseModel] = useState(initialModel || models[0]?.name || '');
+  const [info, setInfo] = useState<OllamaModelInfo | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [tab, setTab] = useState<Tab>('edit');
+  const [modelfile, setModelfile] = useState('');
+  const [newName, setNewName] = useState('');
+  const [progress, setProgress] = useState<string[]>([]);
+  const [createError, setCreateError] = useState<string | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    if (!baseModel) return;
+    let cancelled = false;
+    setInfo(null);
+    setLoadError(null);
+    new OllamaService(host.url, auth).getModelInfo(baseModel)
+      .then(result => {
+        if (cancelled) return;
+        setInfo(result);
+        setModelfile(withBaseModel(result.modelfile, baseModel));
+        setNewName(`${baseModel.replace(/:latest$/, '')}-custom`);
+      })
+      .catch(err => {
+        if (!cancelled) setLoadError(describeError(err));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [host, auth, baseModel]);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const parsed = useMemo(() => parseModelfile(modelfile), [modelfile]);
+  const name = newName.trim();
+  const nameTaken = models.some(m => m.name === name || m.name === `${name}:latest`);
+
+  const handleCreate = async () => {
+    if (!name || parsed.errors.length > 0) return;
+    if (nameTaken && !window.confirm(`"${name}" already exists on ${host.name}. Replace it?`)) return;
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsCreating(true);
+    setCreateError(null);
+    setProgress([]);
+    try {
+      await new OllamaService(host.url, auth).createModel(
+        toCreateRequest(name, modelfile, parsed),
+        (status) => {
+          const line = describeProgress(status);
+          // Download percentages repeat the same status; update that line instead of adding one per chunk.
+          setProgress(prev => (prev.length > 0 && prev[prev.length - 1].startsWith(status.status) ? [...prev.slice(0, -1), line] : [...prev, line]));
+        },
+        controller.signal
+      );
+      onModelsChanged();
+    } catch (err) {
+      if (!isAbortError(err)) setCreateError(describeError(err));
+    } finally {
+      abortRef.current = null;
+      setIsCreating(false);
+    }
+  };
+
+  const readOnlyText = info && tab !== 'edit' ? info[tab] : '';
+
+  return (
+    <div className="flex flex-col flex-1 bg-gray-900 overflow-hidden">
+      <div className="flex items-center justify-between p-4 border-b border-gray-700">
+        <div>
+          <h2 className="text-lg font-semibold">Modelfile</h2>
+          <p className="text-xs text-gray-400">Inspect a model or create a new one from its Modelfile on {host.name}</p>
+        </div>
+        <button onClick={onClose} className="p-2 rounded-md hover:bg-gray-700" aria-label="Close Modelfile view">
+          <XIcon className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div className="p-4 border-b border-gray-700 flex flex-wrap items-center gap-2 text-sm">
+        <select
+          value={baseModel}
+          onChange={(e) => setBaseModel(e.target.value)}
+          disabled={isCreating}
+          className="bg-gray-700 border border-gray-600 rounded-md p-1.5 focus:ring-cyan-500 focus:border-cyan-500"
+        >
+          {models.map(m => <option key={m.name} value={m.name}>{m.name}</option>)}
+        </select>
+        <div className="flex gap-1">
+          {TABS.map(({ id, label }) => (
+            <button
+              key={id}
+              onClick={() => setTab(id)}
+              className={`py-1.5 px-3 rounded-md text-xs ${tab === id ? 'bg-cyan-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex-1 flex flex-col overflow-hidden p-4 gap-3">
+        {loadError ? (
+          <p className="text-sm text-red-400">Could not load {baseModel}: {loadError}</p>
+        ) : !info ? (
+          <div className="flex items-center justify-center text-gray-500 text-sm py-8">
+            <SpinnerIcon className="w-4 h-4 mr-2 animate-spin" />
+            <span>Loading {baseModel}…</span>
+          </div>
+        ) : tab === 'edit' ? (
+          <>
+            <ModelfileEditor value={modelfile} onChange={setModelfile} disabled={isCreating} />
+            {parsed.errors.length > 0 && (
+              <ul className="text-xs text-red-400 list-disc list-inside">
+                {parsed.errors.map(message => <li key={message}>{message}</li>)}
+              </ul>
+            )}
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <label htmlFor="new-model-name" className="text-gray-300">New model name</label>
+              <input
+                id="new-model-name"
+                type="text"
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                disabled={isCreating}
+                className="flex-grow min-w-[10rem] bg-gray-700 border border-gray-600 rounded-md p-1.5 focus:ring-cyan-500 focus:border-cyan-500"
+              />
+              {isCreating ? (
+                <button onClick={() => abortRef.current?.abort()} className="bg-red-700 hover:bg-red-600 text-white py-1.5 px-3 rounded-md">
+                  Cancel
+                </button>
+              ) : (
+                <button
+                  onClick={handleCreate}
+                  disabled={!name || parsed.errors.length > 0}
+                  className="bg-cyan-600 hover:bg-cyan-500 text-white py-1.5 px-3 rounded-md disabled:bg-gray-700 disabled:text-gray-500 disabled:cursor-not-allowed"
+                >
+                  Create
+                </button>
+              )}
+            </div>
+            {nameTaken && !isCreating && <p className="text-xs text-yellow-500">A model with this name exists and will be replaced.</p>}
+            {(progress.length > 0 || createError) && (
+              <div className="max-h-32 overflow-y-auto bg-gray-800 border border-gray-700 rounded-md p-2 font-mono text-xs text-gray-400">
+                {progress.map((line, index) => <div key={index}>{line}</div>)}
+                {createError && <div className="text-red-400">{createError}</div>}
+              </div>
+            )}
+          </>
+        ) : (
+          <pre className={`${EDITOR_TEXT} flex-1 overflow-auto bg-gray-800 border border-gray-700 rounded-md text-gray-200`}>
+            {!readOnlyText ? <span className="text-gray-500">This model has no {tab}.</span> : tab === 'modelfile' ? <Highlighted text={readOnlyText} /> : readOnlyText}
+          </pre>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ModelfileView;
@@ -0,0 +1,93 @@
+import React from 'react';
+import type { OllamaOptions } from '../types';
+
+interface ParametersPanelProps {
+  options: OllamaOptions;
+  defaults: OllamaOptions;
+  maxContext?: number; // the model's trained context length, caps num_ctx
+  onChange: (options: OllamaOptions) => void;
+}
+
+type NumericField = Exclude<keyof OllamaOptions, 'stop'>;
+
+const FIELDS: { key: NumericField; label: string; step: number; min?: number; max?: number }[] = [
+  { key: 'temperature', label: 'Temperature', step: 0.05, min: 0, max: 2 },
+  { key: 'top_k', label: 'Top K', step: 1, min: 0 },
+  { key: 'top_p', label: 'Top P', step: 0.05, min: 0, max: 1 },
+  { key: 'num_ctx', label: 'Context (num_ctx)', step: 512, min: 1 },
+  { key: 'num_predict', label: 'Max tokens (num_predict)', step: 1, min: -2 },
+  { key: 'repeat_penalty', label: 'Repeat penalty', step: 0.05, min: 0 },
+  { key: 'seed', label: 'Seed', step: 1 },
+];
+
+const ParametersPanel: React.FC<ParametersPanelProps> = ({ options, defaults, maxContext, onChange }) => {
+  const setField = (key: NumericField, raw: string) => {
+    const next = { ...options };
+    if (raw.trim() === '' || Number.isNaN(Number(raw))) {
+      delete next[key];
+    } else {
+      next[key] = Number(raw);
+    }
+    onChange(next);
+  };
+
+  const setStop = (raw: string) => {
+    const next = { ...options };
+    // Blank lines are kept while editing and dropped when the request is built.
+    if (raw !== '') {
+      next.stop = raw.split('\n');
+    } else {
+      delete next.stop;
+    }
+    onChange(next);
+  };
+
+  const hasOverrides = Object.keys(options).length > 0;
+
+  return (
+    <details className="mb-4 border-t border-gray-700 pt-4 text-sm">
+      <summary className="cursor-pointer font-medium text-gray-400 hover:text-white">
+        Generation Parameters{hasOverrides && <span className="ml-2 text-xs text-cyan-400">(custom)</span>}
+      </summary>
+      <div className="mt-3 space-y-2 text-xs">
+        {FIELDS.map(({ key, label, step, min, max }) => (
+          <div key={key} className="flex items-center justify-between gap-2">
+            <label htmlFor={`param-${key}`} className="text-gray-300">{label}</label>
+            <input
+              id={`param-${key}`}
+              type="number"
+              step={step}
+              min={min}
+              max={key === 'num_ctx' ? maxContext ?? max : max}
+              title={key === 'num_ctx' && maxContext !== undefined ? `Up to ${maxContext.toLocaleString()} for this model` : undefined}
+              value={options[key] ?? ''}
+              onChange={(e) => setField(key, e.target.value)}
+              placeholder={defaults[key] !== undefined ? String(defaults[key]) : 'default'}
+              className="w-20 bg-gray-700 border border-gray-600 rounded-md p-1 text-right focus:ring-cyan-500 focus:border-cyan-500"
+            />
+          </div>
+        ))}
+        <div>
+          <label htmlFor="param-stop" className="block text-gray-300 mb-1">Stop sequences (one per line)</label>
+          <textarea
+            id="param-stop"
+            rows={2}
+            value={(options.stop ?? []).join('\n')}
+            onChange={(e) => setStop(e.target.value)}
+            placeholder={defaults.stop?.join('\n') || 'none'}
+            className="w-full bg-gray-700 border border-gray-600 rounded-md p-1 font-mono focus:ring-cyan-500 focus:border-cyan-500"
+          />
+        </div>
+        <button
+          onClick={() => onChange({})}
+          disabled={!hasOverrides}
+          className="w-full bg-gray-700 hover:bg-gray-600 text-white py-1 px-2 rounded-md disabled:text-gray-500 disabled:cursor-not-allowed"
+        >
+          Reset to model defaults
+        </button>
+      </div>
+    </details>
+  );
+};
+
+export default ParametersPanel;
@@ -0,0 +1,157 @@
+import React, { useRef, useState } from 'react';
+import type { AssistantProfile } from '../types';
+import { downloadFile, readFileAsText } from '../utils/download';
+import { parseProfiles, serializeProfiles } from '../utils/profiles';
+
+interface ProfilesPanelProps {
+  profiles: AssistantProfile[];
+  systemPrompt: string;
+  setSystemPrompt: (prompt: string) => void;
+  onApplyProfile: (profile: AssistantProfile) => void;
+  onSaveProfile: (name: string) => void;
+  onDeleteProfile: (id: string) => void;
+  onImportProfiles: (profiles: AssistantProfile[]) => void;
+}
+
+const ProfilesPanel: React.FC<ProfilesPanelProps> = ({
+  profiles,
+  systemPrompt,
+  setSystemPrompt,
+  onApplyProfile,
+  onSaveProfile,
+  onDeleteProfile,
+  onImportProfiles,
+}) => {
+  const [selectedId, setSelectedId] = useState('');
+  const [newProfileName, setNewProfileName] = useState('');
+  const [message, setMessage] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const selectedProfile = profiles.find(p => p.id === selectedId);
+
+  const handleSelect = (id: string) => {
+    setSelectedId(id);
+    const profile = profiles.find(p => p.id === id);
+    if (profile) {
+      onApplyProfile(profile);
+      setMessage(`Applied "${profile.name}".`);
+    }
+  };
+
+  const handleSave = () => {
+    const name = newProfileName.trim();
+    if (!name) return;
+    onSaveProfile(name);
+    setNewProfileName('');
+    setMessage(`Saved "${name}".`);
+  };
+
+  const handleDelete = () => {
+    if (!selectedProfile) return;
+    if (!window.confirm(`Delete profile "${selectedProfile.name}"?`)) return;
+    onDeleteProfile(selectedProfile.id);
+    setSelectedId('');
+    setMessage(null);
+  };
+
+  const handleExport = () => {
+    downloadFile('saintpopeye-profiles.json', serializeProfiles(profiles), 'application/json');
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parseProfiles(await readFileAsText(file));
+      onImportProfiles(imported);
+      setMessage(`Imported ${imported.length} profile${imported.length === 1 ? '' : 's'}.`);
+    } catch (err) {
+      setMessage(`Import failed: ${(err as Error).message}`);
+    }
+  };
+
+  return (
+    <details className="mb-4 border-t border-gray-700 pt-4 text-sm">
+      <summary className="cursor-pointer font-medium text-gray-400 hover:text-white">
+        System Prompt & Profiles
+      </summary>
+      <div className="mt-3 space-y-3 text-xs">
+        <div>
+          <label htmlFor="system-prompt" className="block text-gray-300 mb-1">System prompt</label>
+          <textarea
+            id="system-prompt"
+            rows={4}
+            value={systemPrompt}
+            onChange={(e) => setSystemPrompt(e.target.value)}
+            placeholder="You are a helpful assistant..."
+            className="w-full bg-gray-700 border border-gray-600 rounded-md p-2 focus:ring-cyan-500 focus:border-cyan-500"
+          />
+        </div>
+
+        <div>
+          <label htmlFor="profile-select" className="block text-gray-300 mb-1">Profile</label>
+          <div className="flex space-x-2">
+            <select
+              id="profile-select"
+              value={selectedId}
+              onChange={(e) => handleSelect(e.target.value)}
+              className="flex-grow min-w-0 bg-gray-700 border border-gray-600 rounded-md p-1 focus:ring-cyan-500 focus:border-cyan-500"
+              disabled={profiles.length === 0}
+            >
+              <option value="">{profiles.length > 0 ? 'Choose a profile...' : 'No saved profiles'}</option>
+              {profiles.map(profile => (
+                <option key={profile.id} value={profile.id}>{profile.name}</option>
+              ))}
+            </select>
+            <button
+              onClick={handleDelete}
+              disabled={!selectedProfile}
+              className="bg-gray-700 hover:bg-red-600 text-white py-1 px-2 rounded-md disabled:text-gray-500 disabled:hover:bg-gray-700 disabled:cursor-not-allowed"
+            >
+              Delete
+            </button>
+          </div>
+        </div>
+
+        <div className="flex space-x-2">
+          <input
+            type="text"
+            value={newProfileName}
+            onChange={(e) => setNewProfileName(e.target.value)}
+            placeholder="New profile name"
+            className="flex-grow min-w-0 bg-gray-700 border border-gray-600 rounded-md p-1 focus:ring-cyan-500 focus:border-cyan-500"
+          />
+          <button
+            onClick={handleSave}
+            disabled={!newProfileName.trim()}
+            className="bg-cyan-600 hover:bg-cyan-500 text-white py-1 px-2 rounded-md disabled:bg-gray-600 disabled:cursor-not-allowed"
+          >
+            Save
+          </button>
+        </div>
+
+        <div className="flex space-x-2">
+          <input type="file" ref={fileInputRef} onChange={handleImport} accept="application/json,.json" className="hidden" />
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="flex-1 bg-gray-700 hover:bg-gray-600 text-white py-1 px-2 rounded-md"
+          >
+            Import
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={profiles.length === 0}
+            className="flex-1 bg-gray-700 hover:bg-gray-600 text-white py-1 px-2 rounded-md disabled:text-gray-500 disabled:cursor-not-allowed"
+          >
+            Export
+          </button>
+        </div>
+
+        {message && <p className="text-gray-400">{message}</p>}
+      </div>
+    </details>
+  );
+};
+
+export default ProfilesPanel;
@@ -0,0 +1,160 @@
+import React, { useState } from 'react';
+import type { HostProfile, PullJob } from '../types';
+import { isActivePull, pullTotals } from '../hooks/usePullQueue';
+import { formatBytes, formatDuration } from '../utils/format';
+import { findCatalogModel, parseHuggingFaceReference } from '../utils/modelCatalog';
+import { SpinnerIcon, XIcon } from './icons';
+
+interface PullQueuePanelProps {
+  jobs: PullJob[];
+  hostProfiles: HostProfile[];
+  activeHostId: string;
+  onPull: (model: string) => void;
+  onCancel: (id: string) => void;
+  onClearFinished: () => void;
+  onBrowseCatalog: () => void;
+}
+
+const STATUS_CLASSES: Record<PullJob['status'], string> = {
+  queued: 'text-gray-400',
+  pulling: 'text-cyan-400',
+  done: 'text-green-400',
+  failed: 'text-red-400',
+  cancelled: 'text-gray-500',
+};
+
+const ProgressBar: React.FC<{ completed: number; total: number; className?: string }> = ({ completed, total, className = 'h-2' }) => (
+  <div className={`w-full bg-gray-600 rounded-full overflow-hidden ${className}`}>
+    <div className="bg-cyan-600 h-full rounded-full" style={{ width: `${total > 0 ? (completed / total) * 100 : 0}%` }} />
+  </div>
+);
+
+const PullJobItem: React.FC<{ job: PullJob; hostName?: string; onCancel: () => void }> = ({ job, hostName, onCancel }) => {
+  const { total, completed } = pullTotals(job);
+  const layers = Object.entries(job.layers);
+  const eta = job.bytesPerSecond && total > completed ? ((total - completed) / job.bytesPerSecond) * 1000 : undefined;
+
+  return (
+    <li className="p-2 bg-gray-900/50 rounded-md space-y-1">
+      <div className="flex items-center justify-between gap-2">
+        <span className="font-semibold text-gray-200 truncate" title={job.model}>{job.model}</span>
+        {isActivePull(job) && (
+          <button onClick={onCancel} className="flex-shrink-0 p-0.5 rounded hover:bg-gray-700 hover:text-white" aria-label={`Cancel pull of ${job.model}`}>
+            <XIcon className="w-3.5 h-3.5" />
+          </button>
+        )}
+      </div>
+      {hostName && <p className="text-gray-500">on {hostName}</p>}
+      <p className={`${STATUS_CLASSES[job.status]} break-words`}>
+        {job.status === 'pulling' && <SpinnerIcon className="inline w-3 h-3 mr-1 animate-spin" />}
+        {job.message}
+      </p>
+      {job.status === 'pulling' && total > 0 && (
+        <>
+          <ProgressBar completed={completed} total={total} />
+          <div className="flex justify-between text-gray-400">
+            <span>{formatBytes(completed, 1)} / {formatBytes(total, 1)}</span>
+            {job.bytesPerSecond !== undefined && job.bytesPerSecond >= 1 && (
+              <span>{formatBytes(job.bytesPerSecond, 1)}/s{eta !== undefined && ` · ${formatDuration(eta)} left`}</span>
+            )}
+          </div>
+          {layers.length > 1 && (
+            <details>
+              <summary className="cursor-pointer text-gray-500 hover:text-white">{layers.length} layers</summary>
+              <ul className="mt-1 space-y-1">
+                {layers.map(([digest, layer]) => (
+                  <li key={digest}>
+                    <div className="flex justify-between text-gray-500">
+                      <span className="font-mono">{digest.replace(/^sha256:/, '').slice(0, 12)}</span>
+                      <span>{formatBytes(layer.total, 1)}</span>
+                    </div>
+                    <ProgressBar completed={layer.completed} total={layer.total} className="h-1" />
+                  </li>
+                ))}
+              </ul>
+            </details>
+          )}
+        </>
+      )}
+    </li>
+  );
+};
+
+/** Model name input plus the pull queue, which may hold pulls for other hosts too. */
+const PullQueuePanel: React.FC<PullQueuePanelProps> = ({ jobs, hostProfiles, activeHostId, onPull, onCancel, onClearFinished, onBrowseCatalog }) => {
+  const [modelToPull, setModelToPull] = useState('');
+
+  const handlePull = () => {
+    const model = modelToPull.trim();
+    if (!model) return;
+    onPull(parseHuggingFaceReference(model) ?? model);
+    setModelToPull('');
+  };
+
+  // Catch typos before they fail halfway through the pull stream.
+  const typed = modelToPull.trim();
+  const catalogModel = typed ? findCatalogModel(typed) : undefined;
+  const typedTag = typed.split(':')[1];
+  const hint = !typed || parseHuggingFaceReference(typed) || typed.includes('/')
+    ? null
+    : !catalogModel
+      ? 'Not in the catalog. Check the spelling.'
+      : typedTag && typedTag !== 'latest' && !catalogModel.tags.some(t => t.tag === typedTag)
+        ? `Unknown tag. Catalog tags: ${catalogModel.tags.map(t => t.tag).join(', ')}`
+        : null;
+
+  const hasFinished = jobs.some(job => !isActivePull(job));
+
+  return (
+    <div>
+      <div className="flex items-baseline justify-between mb-1">
+        <label htmlFor="pull-model" className="block text-sm font-medium text-gray-400">
+          Pull Model
+        </label>
+        <button onClick={onBrowseCatalog} className="text-xs text-cyan-400 hover:text-white">
+          Browse catalog
+        </button>
+      </div>
+      <div className="flex space-x-2">
+        <input
+          id="pull-model"
+          type="text"
+          value={modelToPull}
+          onChange={(e) => setModelToPull(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handlePull()}
+          className="flex-grow min-w-0 bg-gray-700 border border-gray-600 rounded-md p-2 text-sm focus:ring-cyan-500 focus:border-cyan-500"
+          placeholder="e.g., llama3"
+        />
+        <button
+          onClick={handlePull}
+          disabled={!modelToPull.trim()}
+          className="bg-cyan-600 hover:bg-cyan-500 text-white font-bold py-2 px-4 rounded-md disabled:bg-gray-600 disabled:cursor-not-allowed"
+        >
+          Pull
+        </button>
+      </div>
+      {hint && <p className="mt-1 text-xs text-yellow-500">{hint}</p>}
+      {jobs.length > 0 && (
+        <div className="mt-2 text-xs">
+          <ul className="space-y-2 max-h-72 overflow-y-auto">
+            {jobs.map(job => (
+              <PullJobItem
+                key={job.id}
+                job={job}
+                hostName={job.hostId !== activeHostId ? hostProfiles.find(h => h.id === job.hostId)?.name ?? 'a removed host' : undefined}
+                onCancel={() => onCancel(job.id)}
+              />
+            ))}
+          </ul>
+          {hasFinished && (
+            <button onClick={onClearFinished} className="mt-1 text-gray-500 hover:text-white">
+              Clear finished
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PullQueuePanel;
@@ -0,0 +1,154 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import type { HostAuth, HostProfile, KeepAlive, OllamaRunningModel } from '../types';
+import { OllamaService, isAbortError } from '../services/ollamaService';
+import { describeError } from '../utils/errorHelp';
+import { formatBytes, formatRelativeTime } from '../utils/format';
+import { RefreshIcon, SpinnerIcon } from './icons';
+
+interface RunningModelsPanelProps {
+  host: HostProfile;
+  auth: HostAuth;
+  keepAlive: KeepAlive | null;
+  setKeepAlive: (keepAlive: KeepAlive | null) => void;
+}
+
+const POLL_INTERVAL_MS = 5_000;
+
+// Ollama reports a date centuries ahead for models loaded with keep_alive -1.
+const NEVER_EXPIRES_AFTER_MS = 365 * 86_400_000;
+
+const KEEP_ALIVE_PRESETS: { label: string; value: KeepAlive | null }[] = [
+  { label: 'Server default', value: null },
+  { label: 'Unload after each reply', value: 0 },
+  { label: '5 minutes', value: '5m' },
+  { label: '30 minutes', value: '30m' },
+  { label: '1 hour', value: '1h' },
+  { label: '4 hours', value: '4h' },
+  { label: 'Until unloaded', value: -1 },
+];
+
+const describeExpiry = (expiresAt: string): string => {
+  const time = Date.parse(expiresAt);
+  if (Number.isNaN(time)) return 'unknown';
+  if (time - Date.now() > NEVER_EXPIRES_AFTER_MS) return 'never';
+  return formatRelativeTime(time);
+};
+
+/**
+ * Models loaded on an Ollama host (from /api/ps), refreshed while the panel
+ * is open, plus the keep_alive sent with each chat request.
+ */
+const RunningModelsPanel: React.FC<RunningModelsPanelProps> = ({ host, auth, keepAlive, setKeepAlive }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [running, setRunning] = useState<OllamaRunningModel[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [unloading, setUnloading] = useState<string | null>(null);
+
+  const refresh = useCallback(async (signal?: AbortSignal) => {
+    try {
+      const { models } = await new OllamaService(host.url, auth).listRunningModels(signal);
+      setRunning(models);
+      setError(null);
+    } catch (err) {
+      if (isAbortError(err)) return;
+      setError(describeError(err));
+    }
+  }, [host, auth]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const controller = new AbortController();
+    refresh(controller.signal);
+    const interval = setInterval(() => refresh(controller.signal), POLL_INTERVAL_MS);
+    return () => {
+      clearInterval(interval);
+      controller.abort();
+    };
+  }, [isOpen, refresh]);
+
+  const handleUnload = async (name: string) => {
+    setUnloading(name);
+    try {
+      await new OllamaService(host.url, auth).unloadModel(name);
+      await refresh();
+    } catch (err) {
+      setError(describeError(err));
+    } finally {
+      setUnloading(null);
+    }
+  };
+
+  const totalVram = running?.reduce((sum, m) => sum + m.size_vram, 0) ?? 0;
+  const presetIndex = KEEP_ALIVE_PRESETS.findIndex(p => p.value === keepAlive);
+
+  return (
+    <details
+      className="mb-4 border-t border-gray-700 pt-4 text-sm"
+      onToggle={(e) => setIsOpen(e.currentTarget.open)}
+    >
+      <summary className="cursor-pointer font-medium text-gray-400 hover:text-white">
+        Running Models{running && running.length > 0 && <span className="ml-2 text-xs text-cyan-400">({running.length})</span>}
+      </summary>
+      <div className="mt-3 space-y-3 text-xs">
+        <div className="flex items-center justify-between gap-2">
+          <label htmlFor="keep-alive" className="text-gray-300">Keep loaded for…</label>
+          <select
+            id="keep-alive"
+            value={presetIndex === -1 ? 'custom' : presetIndex}
+            onChange={(e) => {
+              if (e.target.value !== 'custom') setKeepAlive(KEEP_ALIVE_PRESETS[Number(e.target.value)].value);
+            }}
+            className="bg-gray-700 border border-gray-600 rounded-md p-1 focus:ring-cyan-500 focus:border-cyan-500"
+          >
+            {KEEP_ALIVE_PRESETS.map((preset, index) => (
+              <option key={preset.label} value={index}>{preset.label}</option>
+            ))}
+            {/* A stored value that isn't a preset (e.g. from an older version) is still what gets sent. */}
+            {presetIndex === -1 && <option value="custom">Custom ({String(keepAlive)})</option>}
+          </select>
+        </div>
+
+        <div className="flex items-center justify-between text-gray-500">
+          <span>{running ? `${formatBytes(totalVram)} VRAM in use` : 'Loading…'}</span>
+          <button onClick={() => refresh()} className="p-1 rounded-md hover:bg-gray-700 hover:text-white" title="Refresh">
+            <RefreshIcon className="w-3.5 h-3.5" />
+          </button>
+        </div>
+
+        {error && <p className="text-red-400">{error}</p>}
+        {running && running.length === 0 && <p className="text-gray-500">No models are loaded.</p>}
+
+        <ul className="space-y-2">
+          {running?.map(model => {
+            const vramShare = model.size > 0 ? Math.round((model.size_vram / model.size) * 100) : 0;
+            return (
+              <li key={model.digest || model.name} className="p-2 bg-gray-900/50 rounded-md space-y-1">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-semibold text-gray-200 truncate" title={model.name}>{model.name}</span>
+                  <button
+                    onClick={() => handleUnload(model.name)}
+                    disabled={unloading !== null}
+                    className="flex-shrink-0 bg-gray-700 hover:bg-red-600 text-white py-0.5 px-2 rounded-md disabled:opacity-50"
+                  >
+                    {unloading === model.name ? <SpinnerIcon className="w-3 h-3 animate-spin" /> : 'Unload now'}
+                  </button>
+                </div>
+                <div className="h-1.5 bg-gray-700 rounded-full overflow-hidden" title={`${vramShare}% in VRAM`}>
+                  <div className="h-full bg-cyan-500" style={{ width: `${vramShare}%` }} />
+                </div>
+                <div className="flex flex-wrap gap-x-3 text-gray-400">
+                  <span>{formatBytes(model.size)}</span>
+                  <span>{vramShare}% GPU</span>
+                  {model.context_length !== undefined && <span>ctx {model.context_length.toLocaleString()}</span>}
+                  <span>expires {describeExpiry(model.expires_at)}</span>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+    </details>
+  );
+};
+
+export default RunningModelsPanel;
@@ -0,0 +1,120 @@
+import React, { useMemo, useState } from 'react';
+import type { Conversation } from '../types';
+import { buildSearchIndex, searchIndex, tokenize } from '../utils/search';
+import type { SearchFilters } from '../utils/search';
+
+interface SearchPanelProps {
+  conversations: Conversation[];
+  onSelectResult: (conversationId: string, messageId: string) => void;
+}
+
+const MAX_RESULTS = 50;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const Highlighted: React.FC<{ text: string; terms: string[] }> = ({ text, terms }) => {
+  if (terms.length === 0) return <>{text}</>;
+  const pattern = new RegExp(`(${terms.map(escapeRegExp).join('|')})`, 'gi');
+  return (
+    <>
+      {text.split(pattern).map((part, index) =>
+        index % 2 === 1
+          ? <mark key={index} className="bg-cyan-600/60 text-white rounded px-0.5">{part}</mark>
+          : <React.Fragment key={index}>{part}</React.Fragment>
+      )}
+    </>
+  );
+};
+
+// <input type="date"> gives a local YYYY-MM-DD string.
+const parseDate = (value: string, endOfDay: boolean): number | undefined => {
+  if (!value) return undefined;
+  const date = new Date(`${value}T00:00:00`);
+  if (endOfDay) date.setHours(23, 59, 59, 999);
+  return date.getTime();
+};
+
+const SearchPanel: React.FC<SearchPanelProps> = ({ conversations, onSelectResult }) => {
+  const [query, setQuery] = useState('');
+  const [model, setModel] = useState('');
+  // System prompts live on the conversation, not among its messages, so there's no system filter.
+  const [role, setRole] = useState<'' | 'user' | 'assistant'>('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+
+  const index = useMemo(() => buildSearchIndex(conversations), [conversations]);
+  const conversationModels = useMemo(
+    () => [...new Set(index.map(entry => entry.model).filter(Boolean))].sort(),
+    [index]
+  );
+
+  const filters: SearchFilters = {
+    model: model || undefined,
+    role: role || undefined,
+    from: parseDate(from, false),
+    to: parseDate(to, true),
+  };
+  const results = useMemo(
+    () => searchIndex(index, query, filters).slice(0, MAX_RESULTS),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [index, query, model, role, from, to]
+  );
+  const terms = tokenize(query);
+
+  const inputClass = 'bg-gray-700 border border-gray-600 rounded-md p-1 focus:ring-cyan-500 focus:border-cyan-500';
+
+  return (
+    <details className="mb-4 border-t border-gray-700 pt-4 text-sm">
+      <summary className="cursor-pointer font-medium text-gray-400 hover:text-white">Search Conversations</summary>
+      <div className="mt-3 space-y-2 text-xs">
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search messages..."
+          className={`w-full p-2 text-sm ${inputClass}`}
+        />
+        <div className="grid grid-cols-2 gap-2">
+          <select value={model} onChange={(e) => setModel(e.target.value)} className={inputClass} aria-label="Filter by model">
+            <option value="">All models</option>
+            {conversationModels.map(m => <option key={m} value={m}>{m.replace(':latest', '')}</option>)}
+          </select>
+          <select value={role} onChange={(e) => setRole(e.target.value as '' | 'user' | 'assistant')} className={inputClass} aria-label="Filter by role">
+            <option value="">All roles</option>
+            <option value="user">User</option>
+            <option value="assistant">Assistant</option>
+          </select>
+          <input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className={inputClass} aria-label="From date" />
+          <input type="date" value={to} onChange={(e) => setTo(e.target.value)} className={inputClass} aria-label="To date" />
+        </div>
+
+        {terms.length > 0 && (
+          results.length > 0 ? (
+            <ul className="space-y-1 max-h-64 overflow-y-auto">
+              {results.map(({ entry, snippet }) => (
+                <li key={`${entry.conversationId}:${entry.messageId}`}>
+                  <button
+                    onClick={() => onSelectResult(entry.conversationId, entry.messageId)}
+                    className="w-full text-left p-2 rounded-md hover:bg-gray-700"
+                  >
+                    <span className="block truncate text-gray-300 font-semibold">{entry.conversationTitle}</span>
+                    <span className="block text-gray-500">
+                      {entry.role} · {new Date(entry.timestamp).toLocaleDateString()}
+                    </span>
+                    <span className="block text-gray-400 break-words">
+                      <Highlighted text={snippet} terms={terms} />
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-gray-500">No matches.</p>
+          )
+        )}
+      </div>
+    </details>
+  );
+};
+
+export default SearchPanel;
@@ -1,39 +1,123 @@
-import React, { useState, useCallback, useRef, useEffect } from 'react';
-import type { OllamaModel, OllamaPullStatus, OllamaModelInfo } from '../types';
-import { OllamaService } from '../services/ollamaService';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import type { OllamaModel, OllamaModelInfo, OllamaOptions, AssistantProfile, Conversation, HostAuth, HostProfile, KeepAlive, ModelFeatures, PullJob } from '../types';
+import { parseModelParameters } from '../utils/modelParameters';
+import { formatBytes } from '../utils/format';
+import { NO_AUTH } from '../utils/hostAuth';
 import { SpinnerIcon, MoreVerticalIcon } from './icons';
+import ParametersPanel from './ParametersPanel';
+import ProfilesPanel from './ProfilesPanel';
+import ConversationList from './ConversationList';
+import SearchPanel from './SearchPanel';
+import HostSwitcher from './HostSwitcher';
+import RunningModelsPanel from './RunningModelsPanel';
+import PullQueuePanel from './PullQueuePanel';
+import ToolsPanel from './ToolsPanel';
+import type { ToolSettings } from '../hooks/useToolCalling';
+import { hasCapability } from '../utils/modelCapabilities';
 
 interface SidebarProps {
-  ollamaHost: string;
-  setOllamaHost: (host: string) => void;
+  hostProfiles: HostProfile[];
+  activeHostId: string;
+  hostAuth: Record<string, HostAuth>;
+  onSelectHost: (id: string) => void;
+  onSaveHost: (host: HostProfile, auth: HostAuth) => void;
+  onDeleteHost: (id: string) => void;
+  keepAlive: KeepAlive | null;
+  setKeepAlive: (keepAlive: KeepAlive | null) => void;
+  onOpenModelManager: () => void;
+  onOpenModelfile: () => void;
+  pullJobs: PullJob[];
+  onPullModel: (model: string) => void;
+  onCancelPull: (id: string) => void;
+  onClearFinishedPulls: () => void;
+  onOpenCatalog: () => void;
+  onOpenMcpServers: () => void;
   models: OllamaModel[];
   selectedModel: string;
   setSelectedModel: (model: string) => void;
   refreshModels: () => void;
   isSidebarOpen: boolean;
   selectedModelInfo: OllamaModelInfo | null;
+  selectedFeatures: ModelFeatures | null;
+  modelFeatures: Record<string, ModelFeatures>;
+  toolSettings: ToolSettings;
   isModelInfoLoading: boolean;
   onClearChat: () => void;
+  generationOptions: OllamaOptions;
+  setGenerationOptions: (options: OllamaOptions) => void;
+  systemPrompt: string;
+  setSystemPrompt: (prompt: string) => void;
+  profiles: AssistantProfile[];
+  onApplyProfile: (profile: AssistantProfile) => void;
+  onSaveProfile: (name: string) => void;
+  onDeleteProfile: (id: string) => void;
+  onImportProfiles: (profiles: AssistantProfile[]) => void;
+  conversations: Conversation[];
+  activeConversationId: string | null;
+  onNewConversation: () => void;
+  onSelectConversation: (id: string) => void;
+  onRenameConversation: (id: string, title: string) => void;
+  onDuplicateConversation: (id: string) => void;
+  onDeleteConversation: (id: string) => void;
+  onImportConversations: (conversations: Conversation[]) => void;
+  onSelectSearchResult: (conversationId: string, messageId: string) => void;
 }
 
 const Sidebar: React.FC<SidebarProps> = ({
-  ollamaHost,
-  setOllamaHost,
+  hostProfiles,
+  activeHostId,
+  hostAuth,
+  onSelectHost,
+  onSaveHost,
+  onDeleteHost,
+  keepAlive,
+  setKeepAlive,
+  onOpenModelManager,
+  onOpenModelfile,
+  pullJobs,
+  onPullModel,
+  onCancelPull,
+  onClearFinishedPulls,
+  onOpenCatalog,
+  onOpenMcpServers,
   models,
   selectedModel,
   setSelectedModel,
   refreshModels,
   isSidebarOpen,
   selectedModelInfo,
+  selectedFeatures,
+  modelFeatures,
+  toolSettings,
   isModelInfoLoading,
   onClearChat,
+  generationOptions,
+  setGenerationOptions,
+  systemPrompt,
+  setSystemPrompt,
+  profiles,
+  onApplyProfile,
+  onSaveProfile,
+  onDeleteProfile,
+  onImportProfiles,
+  conversations,
+  activeConversationId,
+  onNewConversation,
+  onSelectConversation,
+  onRenameConversation,
+  onDuplicateConversation,
+  onDeleteConversation,
+  onImportConversations,
+  onSelectSearchResult,
 }) => {
-  const [modelToPull, setModelToPull] = useState('');
-  const [isPulling, setIsPulling] = useState(false);
-  const [pullStatus, setPullStatus] = useState<OllamaPullStatus | null>(null);
   const [isMenuOpen, setIsMenuOpen] = useState(false);
   const menuRef = useRef<HTMLDivElement>(null);
 
+  const modelDefaults = useMemo(
+    () => parseModelParameters(selectedModelInfo?.parameters),
+    [selectedModelInfo]
+  );
+
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
       if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
@@ -46,52 +130,12 @@ const Sidebar: React.FC<SidebarProps> = ({
     };
   }, []);
 
-  const handlePullModel = useCallback(async () => {
-    if (!modelToPull.trim()) return;
-    setIsPulling(true);
-    setPullStatus({ status: `Initializing pull for ${modelToPull}...` });
-    try {
-      const service = new OllamaService(ollamaHost);
-      await service.pullModel(modelToPull, (status) => {
-        setPullStatus(status);
-      });
-      setModelToPull('');
-      refreshModels();
-    } catch (error) {
-      console.error('Failed to pull model:', error);
-      setPullStatus({ status: `Error pulling model: ${(error as Error).message}`, error: (error as Error).message });
-    } finally {
-      setIsPulling(false);
-      // Keep status message for a while
-      setTimeout(() => setPullStatus(null), 5000);
-    }
-  }, [modelToPull, ollamaHost, refreshModels]);
-  
-  const formatBytes = (bytes: number, decimals = 2) => {
-    if (bytes === 0) return '0 Bytes';
-    const k = 1024;
-    const dm = decimals < 0 ? 0 : decimals;
-    const sizes = ['Bytes', 'KB', 'MB', 'GB', 'TB'];
-    const i = Math.floor(Math.log(bytes) / Math.log(k));
-    return parseFloat((bytes / Math.pow(k, i)).toFixed(dm)) + ' ' + sizes[i];
-  }
-
-  const PullProgress: React.FC<{ status: OllamaPullStatus }> = ({ status }) => {
-    const percentage = status.total && status.completed ? (status.completed / status.total) * 100 : 0;
-    return (
-      <div className="mt-2 text-xs text-gray-400">
-        <p>{status.status}</p>
-        {status.total && status.completed && (
-          <div className="w-full bg-gray-600 rounded-full h-2.5 mt-1">
-            <div className="bg-cyan-600 h-2.5 rounded-full" style={{ width: `${percentage}%` }}></div>
-          </div>
-        )}
-      </div>
-    );
-  };
+  const activeHost = hostProfiles.find(h => h.id === activeHostId) ?? hostProfiles[0];
+  // Pulling and the running-model view are Ollama features; OpenAI-compatible servers manage models themselves.
+  const isOllamaHost = (activeHost.provider ?? 'ollama') === 'ollama';
 
   return (
-    <aside className={`absolute md:relative z-20 h-full w-64 bg-gray-800 text-white p-4 transform transition-transform duration-300 ease-in-out ${isSidebarOpen ? 'translate-x-0' : '-translate-x-full'} md:translate-x-0 flex flex-col`}>
+    <aside className={`absolute md:relative z-20 h-full w-64 bg-gray-800 text-white p-4 transform transition-transform duration-300 ease-in-out ${isSidebarOpen ? 'translate-x-0' : '-translate-x-full'} md:translate-x-0 flex flex-col overflow-y-auto`}>
       <div className="flex justify-between items-center mb-4">
         <h2 className="text-xl font-semibold">SaintPopeye Connect</h2>
         <div className="relative" ref={menuRef}>
@@ -106,31 +150,42 @@ const Sidebar: React.FC<SidebarProps> = ({
             <div className="absolute right-0 mt-2 w-48 bg-gray-700 rounded-md shadow-lg z-10 py-1 border border-gray-600">
               <button
                 onClick={() => {
-                  onClearChat();
+                  if (window.confirm('Clear all messages in this conversation?')) {
+                    onClearChat();
+                  }
                   setIsMenuOpen(false);
                 }}
                 className="block w-full text-left px-4 py-2 text-sm text-gray-300 hover:bg-gray-600 hover:text-white"
               >
-                Clear Chat History
+                Clear This Chat
               </button>
             </div>
           )}
         </div>
       </div>
 
-      <div className="mb-4">
-        <label htmlFor="ollama-host" className="block text-sm font-medium text-gray-400 mb-1">
-          Ollama Host
-        </label>
-        <input
-          id="ollama-host"
-          type="text"
-          value={ollamaHost}
-          onChange={(e) => setOllamaHost(e.target.value)}
-          className="w-full bg-gray-700 border border-gray-600 rounded-md p-2 text-sm focus:ring-cyan-500 focus:border-cyan-500"
-          placeholder="http://localhost:11434"
-        />
-      </div>
+      <ConversationList
+        conversations={conversations}
+        activeConversationId={activeConversationId}
+        onNewConversation={onNewConversation}
+        onSelectConversation={onSelectConversation}
+        onRenameConversation={onRenameConversation}
+        onDuplicateConversation={onDuplicateConversation}
+        onDeleteConversation={onDeleteConversation}
+        onImportConversations={onImportConversations}
+      />
+
+      <SearchPanel conversations={conversations} onSelectResult={onSelectSearchResult} />
+
+      <HostSwitcher
+        hosts={hostProfiles}
+        activeHostId={activeHostId}
+        hostAuth={hostAuth}
+        models={models}
+        onSelectHost={onSelectHost}
+        onSaveHost={onSaveHost}
+        onDeleteHost={onDeleteHost}
+      />
 
       <div className="mb-4">
         <label htmlFor="model-select" className="block text-sm font-medium text-gray-400 mb-1">
@@ -146,19 +201,30 @@ const Sidebar: React.FC<SidebarProps> = ({
           {models.length > 0 ? (
             models.map((model) => (
               <option key={model.name} value={model.name}>
-                {model.name.replace(':latest', '')} ({formatBytes(model.size)})
+                {model.name.replace(':latest', '')}{model.size > 0 ? ` (${formatBytes(model.size)})` : ''}
+                {modelFeatures[model.name]?.capabilities.length ? ` · ${modelFeatures[model.name].capabilities.join(', ')}` : ''}
               </option>
             ))
           ) : (
             <option>No models found</option>
           )}
         </select>
-        <button
-          onClick={refreshModels}
-          className="w-full mt-2 bg-gray-700 hover:bg-gray-600 text-white font-bold py-2 px-4 rounded-md text-sm"
-        >
-          Refresh Models
-        </button>
+        <div className="flex space-x-2 mt-2">
+          <button
+            onClick={refreshModels}
+            className="flex-1 bg-gray-700 hover:bg-gray-600 text-white font-bold py-2 px-4 rounded-md text-sm"
+          >
+            Refresh Models
+          </button>
+          {isOllamaHost && (
+            <button
+              onClick={onOpenModelManager}
+              className="flex-1 bg-gray-700 hover:bg-gray-600 text-white font-bold py-2 px-4 rounded-md text-sm"
+            >
+              Manage
+            </button>
+          )}
+        </div>
       </div>
 
       <div className="mb-4 border-t border-gray-700 pt-4 text-sm">
@@ -182,6 +248,24 @@ const Sidebar: React.FC<SidebarProps> = ({
                     <span className="font-semibold text-gray-300">Quantization:</span>
                     <span>{selectedModelInfo.details.quantization_level}</span>
                 </div>
+                {selectedFeatures?.contextLength !== undefined && (
+                    <div className="flex justify-between">
+                        <span className="font-semibold text-gray-300">Context length:</span>
+                        <span>{selectedFeatures.contextLength.toLocaleString()}</span>
+                    </div>
+                )}
+                {selectedFeatures && selectedFeatures.capabilities.length > 0 && (
+                    <div className="flex flex-wrap gap-1">
+                        {selectedFeatures.capabilities.map(capability => (
+                            <span key={capability} className="px-1.5 py-0.5 rounded bg-gray-700 text-cyan-300">{capability}</span>
+                        ))}
+                    </div>
+                )}
+                {isOllamaHost && (
+                    <button onClick={onOpenModelfile} className="text-cyan-400 hover:text-white">
+                        View Modelfile, template and license…
+                    </button>
+                )}
             </div>
           ) : selectedModel ? (
             <div className="text-xs text-gray-500">Could not load model details.</div>
@@ -190,32 +274,54 @@ const Sidebar: React.FC<SidebarProps> = ({
           )}
       </div>
 
+      <ProfilesPanel
+        profiles={profiles}
+        systemPrompt={systemPrompt}
+        setSystemPrompt={setSystemPrompt}
+        onApplyProfile={onApplyProfile}
+        onSaveProfile={onSaveProfile}
+        onDeleteProfile={onDeleteProfile}
+        onImportProfiles={onImportProfiles}
+      />
+
+      <ParametersPanel
+        options={generationOptions}
+        defaults={modelDefaults}
+        maxContext={selectedFeatures?.contextLength}
+        onChange={setGenerationOptions}
+      />
+
+      {isOllamaHost && (
+        <ToolsPanel
+          {...toolSettings}
+          onManageMcpServers={onOpenMcpServers}
+          modelSupportsTools={hasCapability(selectedFeatures, 'tools')}
+        />
+      )}
+
+      {isOllamaHost && (
+        <RunningModelsPanel
+          key={activeHost.id}
+          host={activeHost}
+          auth={hostAuth[activeHost.id] ?? NO_AUTH}
+          keepAlive={keepAlive}
+          setKeepAlive={setKeepAlive}
+        />
+      )}
+
       <div className="flex-grow"></div>
 
-      <div>
-        <label htmlFor="pull-model" className="block text-sm font-medium text-gray-400 mb-1">
-          Pull Model
-        </label>
-        <div className="flex space-x-2">
-          <input
-            id="pull-model"
-            type="text"
-            value={modelToPull}
-            onChange={(e) => setModelToPull(e.target.value)}
-            className="flex-grow bg-gray-700 border border-gray-600 rounded-md p-2 text-sm focus:ring-cyan-500 focus:border-cyan-500"
-            placeholder="e.g., llama3"
-            disabled={isPulling}
-          />
-          <button
-            onClick={handlePullModel}
-            disabled={isPulling || !modelToPull.trim()}
-            className="bg-cyan-600 hover:bg-cyan-500 text-white font-bold py-2 px-4 rounded-md disabled:bg-gray-600 disabled:cursor-not-allowed"
-          >
-            {isPulling ? '...' : 'Pull'}
-          </button>
-        </div>
-        {pullStatus && <PullProgress status={pullStatus} />}
-      </div>
+      {isOllamaHost && (
+        <PullQueuePanel
+          jobs={pullJobs}
+          hostProfiles={hostProfiles}
+          activeHostId={activeHost.id}
+          onPull={onPullModel}
+          onCancel={onCancelPull}
+          onClearFinished={onClearFinishedPulls}
+          onBrowseCatalog={onOpenCatalog}
+        />
+      )}
     </aside>
   );
 };
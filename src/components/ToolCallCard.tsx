@@ -0,0 +1,71 @@
+import React from 'react';
+import type { ToolCallRecord, ToolCallStatus, ToolDecision } from '../types';
+import { SpinnerIcon } from './icons';
+
+interface ToolCallCardProps {
+  call: ToolCallRecord;
+  approvalPrompt?: string;
+  onDecision?: (id: string, decision: ToolDecision) => void;
+}
+
+const STATUS_LABELS: Record<ToolCallStatus, { label: string; className: string }> = {
+  'awaiting-approval': { label: 'Waiting for approval', className: 'text-yellow-400' },
+  running: { label: 'Running', className: 'text-cyan-400' },
+  done: { label: 'Done', className: 'text-green-400' },
+  error: { label: 'Failed', className: 'text-red-400' },
+  denied: { label: 'Declined', className: 'text-gray-400' },
+  cancelled: { label: 'Cancelled', className: 'text-gray-400' },
+};
+
+const formatArguments = (args: Record<string, unknown>): string =>
+  Object.entries(args).map(([key, value]) => `${key}: ${JSON.stringify(value)}`).join(', ');
+
+/** One tool call inside an assistant message: collapsed once it has finished. */
+const ToolCallCard: React.FC<ToolCallCardProps> = ({ call, approvalPrompt, onDecision }) => {
+  const { label, className } = STATUS_LABELS[call.status];
+  const isWaiting = call.status === 'awaiting-approval';
+
+  return (
+    <details open={isWaiting} className="my-2 rounded-md border border-gray-600 bg-gray-800/60 text-xs">
+      <summary className="cursor-pointer px-2 py-1.5 flex items-center gap-2">
+        <span className="font-mono text-gray-200 truncate">
+          {call.name}({formatArguments(call.arguments)})
+        </span>
+        <span className={`ml-auto flex-shrink-0 flex items-center gap-1 ${className}`}>
+          {call.status === 'running' && <SpinnerIcon className="w-3 h-3 animate-spin" />}
+          {label}
+        </span>
+      </summary>
+      <div className="px-2 pb-2 space-y-2">
+        <div>
+          <p className="text-gray-500 mb-0.5">Arguments</p>
+          <pre className="whitespace-pre-wrap break-words bg-gray-900/60 rounded p-1.5 font-mono text-gray-300">{JSON.stringify(call.arguments, null, 2)}</pre>
+        </div>
+        {call.result !== undefined && (
+          <div>
+            <p className="text-gray-500 mb-0.5">Result</p>
+            <pre className="whitespace-pre-wrap break-words bg-gray-900/60 rounded p-1.5 font-mono text-gray-300 max-h-48 overflow-y-auto">{call.result}</pre>
+          </div>
+        )}
+        {isWaiting && onDecision && (
+          <div className="space-y-2">
+            {approvalPrompt && <p className="text-gray-200">{approvalPrompt}</p>}
+            <div className="flex flex-wrap gap-2">
+              <button onClick={() => onDecision(call.id, 'approve')} className="bg-cyan-600 hover:bg-cyan-500 text-white py-1 px-2 rounded-md">
+                Allow
+              </button>
+              <button onClick={() => onDecision(call.id, 'always')} className="bg-gray-700 hover:bg-gray-600 text-white py-1 px-2 rounded-md">
+                Always allow {call.name}
+              </button>
+              <button onClick={() => onDecision(call.id, 'deny')} className="bg-gray-700 hover:bg-red-600 text-white py-1 px-2 rounded-md">
+                Deny
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </details>
+  );
+};
+
+export default ToolCallCard;
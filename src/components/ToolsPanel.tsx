@@ -0,0 +1,73 @@
+import React from 'react';
+import type { ToolSettings } from '../hooks/useToolCalling';
+
+interface ToolsPanelProps extends ToolSettings {
+  modelSupportsTools: boolean;
+  onManageMcpServers: () => void;
+}
+
+/** Turns tool calling on or off, per tool, and chooses which tools run without asking. */
+const ToolsPanel: React.FC<ToolsPanelProps> = ({
+  registry,
+  toolsEnabled,
+  setToolsEnabled,
+  disabledTools,
+  setToolEnabled,
+  autoApprovedTools,
+  setToolAutoApproved,
+  modelSupportsTools,
+  onManageMcpServers,
+}) => {
+  const enabledCount = registry.filter(tool => !disabledTools.includes(tool.name)).length;
+
+  return (
+    <details className="mb-4 border-t border-gray-700 pt-4 text-sm">
+      <summary className="cursor-pointer font-medium text-gray-400 hover:text-white">
+        Tools
+        {toolsEnabled && modelSupportsTools && <span className="ml-2 text-xs text-cyan-400">({enabledCount} on)</span>}
+      </summary>
+      <div className="mt-3 space-y-3 text-xs">
+        <label className="flex items-center gap-2 text-gray-300">
+          <input type="checkbox" checked={toolsEnabled} onChange={(e) => setToolsEnabled(e.target.checked)} />
+          Let models call tools
+        </label>
+        {!modelSupportsTools && (
+          <p className="text-yellow-500">The selected model doesn't support tool calling, so no tools are sent to it.</p>
+        )}
+        <ul className="space-y-2">
+          {registry.map(tool => {
+            const isEnabled = !disabledTools.includes(tool.name);
+            return (
+              <li key={tool.name} className="p-2 bg-gray-900/50 rounded-md space-y-1">
+                <label className="flex items-center gap-2 font-semibold text-gray-200">
+                  <input
+                    type="checkbox"
+                    checked={isEnabled}
+                    disabled={!toolsEnabled}
+                    onChange={(e) => setToolEnabled(tool.name, e.target.checked)}
+                  />
+                  <span className="font-mono">{tool.name}</span>
+                </label>
+                <p className="text-gray-400">{tool.description}</p>
+                <label className="flex items-center gap-2 text-gray-400">
+                  <input
+                    type="checkbox"
+                    checked={!autoApprovedTools.includes(tool.name)}
+                    disabled={!toolsEnabled || !isEnabled}
+                    onChange={(e) => setToolAutoApproved(tool.name, !e.target.checked)}
+                  />
+                  Ask before each call
+                </label>
+              </li>
+            );
+          })}
+        </ul>
+        <button onClick={onManageMcpServers} className="w-full bg-gray-700 hover:bg-gray-600 text-white py-1 px-2 rounded-md">
+          MCP servers…
+        </button>
+      </div>
+    </details>
+  );
+};
+
+export default ToolsPanel;
@@ -0,0 +1,167 @@
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import type { Conversation } from '../types';
+import { conversationStore } from '../services/conversationStore';
+import { useLocalStorage } from './useLocalStorage';
+import { createId } from '../utils/id';
+import { emptyTree, migrateConversation } from '../utils/messageTree';
+
+export const DEFAULT_CONVERSATION_TITLE = 'New chat';
+
+// Writes are batched so a streaming reply hits IndexedDB at most this often, not on every token.
+const SAVE_DELAY_MS = 500;
+
+export function newConversation(model: string): Conversation {
+  const now = Date.now();
+  return {
+    id: createId(),
+    title: DEFAULT_CONVERSATION_TITLE,
+    model,
+    createdAt: now,
+    updatedAt: now,
+    ...emptyTree(),
+    systemPrompt: '',
+    options: {},
+  };
+}
+
+export function useConversations(defaultModel: string) {
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [activeId, setActiveId] = useLocalStorage<string>('activeConversationId', '');
+  const [isReady, setIsReady] = useState(false);
+  const dirtyIds = useRef(new Set<string>());
+
+  useEffect(() => {
+    let cancelled = false;
+    conversationStore.list()
+      .catch((err) => {
+        console.error('Failed to load conversations:', err);
+        return [] as Conversation[];
+      })
+      .then((stored) => {
+        if (cancelled) return;
+        let loaded = stored.map(migrateConversation);
+        if (loaded.length === 0) {
+          const fresh = newConversation(defaultModel);
+          dirtyIds.current.add(fresh.id);
+          loaded = [fresh];
+        }
+        setConversations(loaded);
+        if (!loaded.some(c => c.id === activeId)) {
+          setActiveId(loaded[0].id);
+        }
+        setIsReady(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+    // Only load once on mount; the active id is read from localStorage.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const latestConversations = useRef(conversations);
+  latestConversations.current = conversations;
+  const saveTimer = useRef<number | null>(null);
+
+  const saveDirty = useCallback(() => {
+    if (saveTimer.current !== null) {
+      window.clearTimeout(saveTimer.current);
+      saveTimer.current = null;
+    }
+    const ids = [...dirtyIds.current];
+    dirtyIds.current.clear();
+    for (const id of ids) {
+      const conversation = latestConversations.current.find(c => c.id === id);
+      if (conversation) {
+        conversationStore.put(conversation).catch(err => console.error('Failed to save conversation:', err));
+      }
+    }
+  }, []);
+
+  // The timer is not restarted by later changes, so a long reply is still
+  // saved every SAVE_DELAY_MS while it streams.
+  useEffect(() => {
+    if (dirtyIds.current.size === 0 || saveTimer.current !== null) return;
+    saveTimer.current = window.setTimeout(saveDirty, SAVE_DELAY_MS);
+  }, [conversations, saveDirty]);
+
+  // Closing or reloading the tab mid-reply shouldn't lose what's pending.
+  useEffect(() => {
+    window.addEventListener('pagehide', saveDirty);
+    return () => {
+      window.removeEventListener('pagehide', saveDirty);
+      saveDirty();
+    };
+  }, [saveDirty]);
+
+  const updateConversation = useCallback((id: string, updater: (conversation: Conversation) => Conversation) => {
+    dirtyIds.current.add(id);
+    setConversations(prev => prev.map(c => (c.id === id ? { ...updater(c), updatedAt: Date.now() } : c)));
+  }, []);
+
+  const createConversation = useCallback((model: string, init?: Partial<Omit<Conversation, 'id'>>) => {
+    const base = newConversation(model);
+    const conversation: Conversation = { ...base, ...init, id: base.id };
+    dirtyIds.current.add(conversation.id);
+    setConversations(prev => [conversation, ...prev]);
+    setActiveId(conversation.id);
+    return conversation;
+  }, [setActiveId]);
+
+  const importConversations = useCallback((imported: Conversation[]) => {
+    if (imported.length === 0) return;
+    imported.forEach(c => dirtyIds.current.add(c.id));
+    setConversations(prev => [...imported, ...prev]);
+    setActiveId(imported[0].id);
+  }, [setActiveId]);
+
+  const renameConversation = useCallback((id: string, title: string) => {
+    updateConversation(id, c => ({ ...c, title: title.trim() || DEFAULT_CONVERSATION_TITLE }));
+  }, [updateConversation]);
+
+  const duplicateConversation = useCallback((id: string) => {
+    const source = conversations.find(c => c.id === id);
+    if (!source) return;
+    const now = Date.now();
+    createConversation(source.model, {
+      ...structuredClone(source),
+      title: `${source.title} (copy)`,
+      createdAt: now,
+      updatedAt: now,
+    });
+  }, [conversations, createConversation]);
+
+  const deleteConversation = useCallback((id: string) => {
+    dirtyIds.current.delete(id);
+    conversationStore.delete(id).catch(err => console.error('Failed to delete conversation:', err));
+    const remaining = conversations.filter(c => c.id !== id);
+    if (remaining.length === 0) {
+      createConversation(defaultModel);
+      setConversations(prev => prev.filter(c => c.id !== id));
+      return;
+    }
+    setConversations(remaining);
+    if (id === activeId) {
+      setActiveId(remaining[0].id);
+    }
+  }, [conversations, activeId, setActiveId, createConversation, defaultModel]);
+
+  const sortedConversations = useMemo(
+    () => [...conversations].sort((a, b) => b.updatedAt - a.updatedAt),
+    [conversations]
+  );
+
+  const activeConversation = conversations.find(c => c.id === activeId) ?? null;
+
+  return {
+    conversations: sortedConversations,
+    activeConversation,
+    isReady,
+    setActiveConversationId: setActiveId,
+    createConversation,
+    importConversations,
+    updateConversation,
+    renameConversation,
+    duplicateConversation,
+    deleteConversation,
+  };
+}
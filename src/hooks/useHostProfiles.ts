@@ -0,0 +1,69 @@
+import { useCallback, useMemo } from 'react';
+import type { HostAuth, HostProfile } from '../types';
+import { useLocalStorage } from './useLocalStorage';
+import { NO_AUTH } from '../utils/hostAuth';
+
+// Before host profiles existed the one host lived under this key; it seeds the first profile.
+const LEGACY_HOST_KEY = 'ollamaHost';
+// The seeded profile isn't written to storage until a host is edited, so its id
+// must be the same on every load: conversations, credentials and pull jobs refer to it.
+const DEFAULT_HOST_ID = 'default';
+
+function readLegacyHost(): string | null {
+  try {
+    const stored = window.localStorage.getItem(LEGACY_HOST_KEY);
+    const parsed: unknown = stored ? JSON.parse(stored) : null;
+    return typeof parsed === 'string' && parsed.trim() ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+export function useHostProfiles(defaultUrl: string) {
+  const initialProfiles = useMemo<HostProfile[]>(
+    () => [{ id: DEFAULT_HOST_ID, name: 'Default', url: readLegacyHost() ?? defaultUrl }],
+    // Only used the first time, before anything is saved.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    []
+  );
+  const [hostProfiles, setHostProfiles] = useLocalStorage<HostProfile[]>('hostProfiles', initialProfiles);
+  const [activeHostId, setActiveHostId] = useLocalStorage<string>('activeHostId', initialProfiles[0].id);
+  // Credentials live under their own key, by host id, so the profile list stays free of secrets.
+  const [hostAuth, setHostAuth] = useLocalStorage<Record<string, HostAuth>>('hostAuth', {});
+
+  const activeHost = hostProfiles.find(h => h.id === activeHostId) ?? hostProfiles[0];
+  const activeAuth = hostAuth[activeHost.id] ?? NO_AUTH;
+
+  const setAuthForHost = useCallback((id: string, auth: HostAuth) => {
+    const { [id]: _previous, ...rest } = hostAuth;
+    setHostAuth(auth.type === 'none' ? rest : { ...rest, [id]: auth });
+  }, [hostAuth, setHostAuth]);
+
+  // Adds the profile, or replaces the one with the same id.
+  const saveHostProfile = useCallback((profile: HostProfile) => {
+    const exists = hostProfiles.some(h => h.id === profile.id);
+    setHostProfiles(exists ? hostProfiles.map(h => (h.id === profile.id ? profile : h)) : [...hostProfiles, profile]);
+  }, [hostProfiles, setHostProfiles]);
+
+  // The last profile can't be deleted: something has to be the active host.
+  const deleteHostProfile = useCallback((id: string) => {
+    if (hostProfiles.length <= 1) return;
+    const remaining = hostProfiles.filter(h => h.id !== id);
+    setHostProfiles(remaining);
+    setAuthForHost(id, NO_AUTH);
+    if (id === activeHost.id) {
+      setActiveHostId(remaining[0].id);
+    }
+  }, [hostProfiles, activeHost, setHostProfiles, setActiveHostId, setAuthForHost]);
+
+  return {
+    hostProfiles,
+    activeHost,
+    activeAuth,
+    hostAuth,
+    setAuthForHost,
+    setActiveHostId,
+    saveHostProfile,
+    deleteHostProfile,
+  };
+}
@@ -0,0 +1,51 @@
+import { useEffect, useState } from 'react';
+import type { HostAuth, HostProfile } from '../types';
+import { createProvider } from '../services/chatProvider';
+
+export type HostStatus = 'checking' | 'online' | 'offline';
+
+const POLL_INTERVAL_MS = 30_000;
+const PROBE_TIMEOUT_MS = 5_000;
+
+/**
+ * Polls the model list of every host so the switcher can show which ones are up.
+ * A host this page can't talk to (CORS, mixed content, ...) counts as offline.
+ */
+export function useHostStatus(hosts: HostProfile[], hostAuth: Record<string, HostAuth>): Record<string, HostStatus> {
+  const [statuses, setStatuses] = useState<Record<string, HostStatus>>({});
+  const hostKey = hosts.map(h => `${h.id}=${h.provider ?? 'ollama'}:${h.url}`).join('\n') + JSON.stringify(hostAuth);
+
+  useEffect(() => {
+    let cancelled = false;
+    let controllers: AbortController[] = [];
+
+    const probeAll = () => {
+      controllers.forEach(c => c.abort());
+      controllers = [];
+      for (const host of hosts) {
+        const controller = new AbortController();
+        controllers.push(controller);
+        const timer = setTimeout(() => controller.abort(), PROBE_TIMEOUT_MS);
+        createProvider(host, hostAuth[host.id]).listModels(controller.signal)
+          .then(() => 'online' as const, () => 'offline' as const)
+          .then((status) => {
+            clearTimeout(timer);
+            if (!cancelled) setStatuses(prev => ({ ...prev, [host.id]: status }));
+          });
+      }
+    };
+
+    setStatuses(Object.fromEntries(hosts.map(h => [h.id, 'checking' as const])));
+    probeAll();
+    const interval = setInterval(probeAll, POLL_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+      controllers.forEach(c => c.abort());
+    };
+    // Re-run only when the set of hosts, their URLs or their credentials change.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [hostKey]);
+
+  return statuses;
+}
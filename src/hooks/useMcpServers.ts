@@ -0,0 +1,169 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import type { HostAuth, McpCallLogEntry, McpServer, McpToolInfo } from '../types';
+import { useLocalStorage } from './useLocalStorage';
+import { McpClient, mcpToolName } from '../services/mcpClient';
+import { isAbortError } from '../services/http';
+import type { ToolDefinition } from '../services/browserTools';
+import { createId } from '../utils/id';
+import { NO_AUTH } from '../utils/hostAuth';
+
+const CALL_LOG_KEY = 'mcpCallLog';
+const CALL_LOG_LIMIT = 200;
+// Tool results can be huge; the stored log keeps only the start of each so it fits in localStorage.
+const STORED_TEXT_LIMIT = 2000;
+
+/** What is known about a server's tools since the page loaded. */
+export type McpServerState =
+  | { status: 'connecting' }
+  | { status: 'ready'; tools: McpToolInfo[] }
+  | { status: 'error'; error: string };
+
+const loadCallLog = (): McpCallLogEntry[] => {
+  try {
+    return JSON.parse(window.localStorage.getItem(CALL_LOG_KEY) ?? '[]');
+  } catch (error) {
+    console.error(error);
+    return [];
+  }
+};
+
+const truncate = (text: string): string =>
+  text.length > STORED_TEXT_LIMIT ? `${text.slice(0, STORED_TEXT_LIMIT)}…` : text;
+
+const saveCallLog = (log: McpCallLogEntry[]) => {
+  const stored = log.map(entry => {
+    const args = JSON.stringify(entry.arguments);
+    return {
+      ...entry,
+      arguments: args.length > STORED_TEXT_LIMIT ? { truncated: truncate(args) } : entry.arguments,
+      result: truncate(entry.result),
+    };
+  });
+  try {
+    window.localStorage.setItem(CALL_LOG_KEY, JSON.stringify(stored));
+  } catch (error) {
+    console.error(error);
+  }
+};
+
+/**
+ * The saved MCP servers, the tools each one offers (discovered again on every
+ * page load) and a log of the calls made to them. `tools` is ready to be
+ * added to the tool registry.
+ */
+export function useMcpServers() {
+  const [servers, setServers] = useLocalStorage<McpServer[]>('mcpServers', []);
+  // Credentials live under their own key, by server id, as they do for hosts.
+  const [serverAuth, setServerAuth] = useLocalStorage<Record<string, HostAuth>>('mcpServerAuth', {});
+  const [states, setStates] = useState<Record<string, McpServerState>>({});
+  const [callLog, setCallLog] = useState<McpCallLogEntry[]>(loadCallLog);
+  // One client per server, so calls share the session opened during discovery.
+  const clients = useRef(new Map<string, McpClient>());
+
+  useEffect(() => saveCallLog(callLog), [callLog]);
+
+  const clientFor = useCallback((server: McpServer): McpClient => {
+    let client = clients.current.get(server.id);
+    if (!client || client.url !== server.url) {
+      client = new McpClient(server.url, serverAuth[server.id]);
+      clients.current.set(server.id, client);
+    }
+    return client;
+  }, [serverAuth]);
+
+  const dropClient = (id: string) => {
+    clients.current.get(id)?.close();
+    clients.current.delete(id);
+  };
+
+  const discover = useCallback(async (server: McpServer) => {
+    setStates(prev => ({ ...prev, [server.id]: { status: 'connecting' } }));
+    try {
+      const tools = await clientFor(server).listTools();
+      setStates(prev => ({ ...prev, [server.id]: { status: 'ready', tools } }));
+    } catch (err) {
+      console.error(`Failed to list the tools of MCP server ${server.name}:`, err);
+      setStates(prev => ({ ...prev, [server.id]: { status: 'error', error: err instanceof Error ? err.message : String(err) } }));
+    }
+  }, [clientFor]);
+
+  // Servers not looked at yet (new, edited or just loaded) are asked for their tools.
+  useEffect(() => {
+    servers.filter(server => !(server.id in states)).forEach(server => void discover(server));
+  }, [servers, states, discover]);
+
+  // Adds the server, or replaces the one with the same id, and looks up its tools again.
+  const saveServer = useCallback((server: McpServer, auth: HostAuth) => {
+    const exists = servers.some(s => s.id === server.id);
+    setServers(exists ? servers.map(s => (s.id === server.id ? server : s)) : [...servers, server]);
+    const { [server.id]: _previous, ...rest } = serverAuth;
+    setServerAuth(auth.type === 'none' ? rest : { ...rest, [server.id]: auth });
+    dropClient(server.id);
+    setStates(({ [server.id]: _state, ...others }) => others);
+  }, [servers, serverAuth, setServers, setServerAuth]);
+
+  const deleteServer = useCallback((id: string) => {
+    setServers(servers.filter(s => s.id !== id));
+    const { [id]: _previous, ...rest } = serverAuth;
+    setServerAuth(rest);
+    dropClient(id);
+    setStates(({ [id]: _state, ...others }) => others);
+  }, [servers, serverAuth, setServers, setServerAuth]);
+
+  const refreshServer = useCallback((id: string) => {
+    const server = servers.find(s => s.id === id);
+    if (!server) return;
+    dropClient(id);
+    void discover(server);
+  }, [servers, discover]);
+
+  const clearCallLog = useCallback(() => setCallLog([]), []);
+
+  const tools = useMemo<ToolDefinition[]>(() => servers.flatMap(server => {
+    const state = states[server.id];
+    if (state?.status !== 'ready') return [];
+    return state.tools.map((tool): ToolDefinition => ({
+      name: mcpToolName(server, tool.name),
+      description: tool.description ?? `The "${tool.name}" tool of the ${server.name} MCP server.`,
+      parameters: tool.inputSchema,
+      approvalPrompt: () => `Run "${tool.name}" on the MCP server ${server.name}?`,
+      run: async (args, { signal }) => {
+        const startedAt = Date.now();
+        const log = (status: McpCallLogEntry['status'], result: string) => {
+          const entry: McpCallLogEntry = {
+            id: createId(),
+            serverId: server.id,
+            tool: tool.name,
+            arguments: args,
+            status,
+            result,
+            startedAt,
+            durationMs: Date.now() - startedAt,
+          };
+          setCallLog(prev => [entry, ...prev].slice(0, CALL_LOG_LIMIT));
+        };
+        try {
+          const result = await clientFor(server).callTool(tool.name, args, signal);
+          log('done', result);
+          return result;
+        } catch (err) {
+          // Thrown errors reach the model as the tool's error result.
+          if (!isAbortError(err)) log('error', err instanceof Error ? err.message : String(err));
+          throw err;
+        }
+      },
+    }));
+  }), [servers, states, clientFor]);
+
+  return {
+    servers,
+    authFor: (id: string): HostAuth => serverAuth[id] ?? NO_AUTH,
+    states,
+    tools,
+    saveServer,
+    deleteServer,
+    refreshServer,
+    callLog,
+    clearCallLog,
+  };
+}
@@ -0,0 +1,69 @@
+import { useEffect, useMemo, useState } from 'react';
+import type { HostAuth, HostProfile, ModelFeatures, OllamaModel } from '../types';
+import { OllamaService, isAbortError } from '../services/ollamaService';
+import { getModelFeatures } from '../utils/modelCapabilities';
+
+const STORAGE_KEY = 'modelFeatures';
+
+// Keyed by digest, so a cached entry stays valid until the model itself changes.
+const loadCache = (): Record<string, ModelFeatures> => {
+  try {
+    return JSON.parse(window.localStorage.getItem(STORAGE_KEY) ?? '{}');
+  } catch (error) {
+    console.error(error);
+    return {};
+  }
+};
+
+const cacheKey = (host: HostProfile, model: OllamaModel): string => model.digest ?? `${host.url}|${model.name}`;
+
+/**
+ * Capabilities and context length of every model on an Ollama host, by model
+ * name. Models not described yet are looked up one at a time via /api/show.
+ */
+export function useModelFeatures(host: HostProfile, auth: HostAuth, models: OllamaModel[]): Record<string, ModelFeatures> {
+  const [cache, setCache] = useState<Record<string, ModelFeatures>>(loadCache);
+  const isOllamaHost = (host.provider ?? 'ollama') === 'ollama';
+
+  useEffect(() => {
+    if (!isOllamaHost) return;
+    const missing = models.filter(model => !(cacheKey(host, model) in cache));
+    if (missing.length === 0) return;
+
+    const controller = new AbortController();
+    const service = new OllamaService(host.url, auth);
+    (async () => {
+      const found: Record<string, ModelFeatures> = {};
+      for (const model of missing) {
+        try {
+          found[cacheKey(host, model)] = getModelFeatures(await service.getModelInfo(model.name, controller.signal));
+        } catch (err) {
+          if (isAbortError(err)) return;
+          console.error(`Failed to read capabilities of ${model.name}:`, err);
+        }
+      }
+      if (Object.keys(found).length === 0) return;
+      const next = { ...loadCache(), ...found };
+      try {
+        window.localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+      } catch (error) {
+        // A full storage only costs a re-fetch on the next load.
+        console.error(error);
+      }
+      setCache(next);
+    })();
+    return () => controller.abort();
+    // `cache` is left out so storing results doesn't restart the lookups.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [host, auth, models, isOllamaHost]);
+
+  return useMemo(() => {
+    if (!isOllamaHost) return {};
+    return Object.fromEntries(
+      models.flatMap(model => {
+        const features = cache[cacheKey(host, model)];
+        return features ? [[model.name, features]] : [];
+      })
+    );
+  }, [isOllamaHost, models, cache, host]);
+}
@@ -0,0 +1,171 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { HostAuth, HostProfile, PullJob, PullLayerProgress } from '../types';
+import { createProvider } from '../services/chatProvider';
+import type { ChatProvider } from '../services/chatProvider';
+import { isAbortError } from '../services/ollamaService';
+import { describeError } from '../utils/errorHelp';
+import { createId } from '../utils/id';
+
+const STORAGE_KEY = 'pullQueue';
+const MAX_CONCURRENT_PULLS = 2;
+// Progress arrives many times a second, so localStorage is written at most this often.
+const SAVE_DELAY_MS = 1_000;
+const SPEED_WINDOW_MS = 5_000;
+
+interface Sample {
+  at: number;
+  bytes: number;
+}
+
+export type PullJobOptions = Pick<PullJob, 'batchId' | 'previousDigest'>;
+
+export const isActivePull = (job: PullJob): boolean => job.status === 'queued' || job.status === 'pulling';
+
+export const pullTotals = (job: PullJob): PullLayerProgress =>
+  Object.values(job.layers).reduce(
+    (sum, layer) => ({ total: sum.total + layer.total, completed: sum.completed + layer.completed }),
+    { total: 0, completed: 0 }
+  );
+
+// Pulls that were running when the page closed start over; Ollama resumes the partial download.
+const loadJobs = (): PullJob[] => {
+  try {
+    const stored: PullJob[] = JSON.parse(window.localStorage.getItem(STORAGE_KEY) ?? '[]');
+    return stored.map(job => (job.status === 'pulling' ? { ...job, status: 'queued', bytesPerSecond: undefined } : job));
+  } catch (error) {
+    console.error(error);
+    return [];
+  }
+};
+
+// The pull stream doesn't say which manifest it wrote, so read it back from the model list.
+const installedDigest = async (service: ChatProvider, model: string): Promise<string | undefined> => {
+  const name = model.includes(':') ? model : `${model}:latest`;
+  try {
+    const { models } = await service.listModels();
+    return models.find(m => m.name === name)?.digest;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Pulls models from any saved host, a few at a time, and tracks progress per
+ * layer. `onDrained` runs once the queue is empty again if anything finished.
+ */
+export function usePullQueue(hostProfiles: HostProfile[], hostAuth: Record<string, HostAuth>, onDrained: () => void) {
+  const [jobs, setJobs] = useState<PullJob[]>(loadJobs);
+  const controllers = useRef(new Map<string, AbortController>());
+  const samples = useRef(new Map<string, Sample[]>());
+  const latestJobs = useRef(jobs);
+  const hadSuccess = useRef(false);
+  const onDrainedRef = useRef(onDrained);
+  onDrainedRef.current = onDrained;
+  latestJobs.current = jobs;
+
+  const updateJob = useCallback((id: string, update: (job: PullJob) => PullJob) => {
+    setJobs(prev => prev.map(job => (job.id === id ? update(job) : job)));
+  }, []);
+
+  const saveJobs = useCallback(() => {
+    try {
+      window.localStorage.setItem(STORAGE_KEY, JSON.stringify(latestJobs.current));
+    } catch (error) {
+      console.error(error);
+    }
+  }, []);
+
+  useEffect(() => {
+    const timer = setTimeout(saveJobs, SAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [jobs, saveJobs]);
+
+  useEffect(() => {
+    window.addEventListener('beforeunload', saveJobs);
+    return () => window.removeEventListener('beforeunload', saveJobs);
+  }, [saveJobs]);
+
+  const runJob = useCallback(async (job: PullJob) => {
+    const controller = new AbortController();
+    controllers.current.set(job.id, controller);
+    samples.current.set(job.id, []);
+    updateJob(job.id, j => ({ ...j, status: 'pulling', message: 'Starting…' }));
+
+    const host = hostProfiles.find(h => h.id === job.hostId);
+    const service = host && createProvider(host, hostAuth[host.id]);
+    const layers: Record<string, PullLayerProgress> = { ...job.layers };
+    try {
+      if (!service?.pullModel) {
+        throw new Error(host ? `${host.name} can't pull models.` : 'This host was removed.');
+      }
+      await service.pullModel(job.model, (status) => {
+        if (status.digest && status.total) {
+          layers[status.digest] = { total: status.total, completed: status.completed ?? 0 };
+        }
+        const bytes = Object.values(layers).reduce((sum, layer) => sum + layer.completed, 0);
+        const now = performance.now();
+        const recent = [...(samples.current.get(job.id) ?? []), { at: now, bytes }].filter(s => now - s.at <= SPEED_WINDOW_MS);
+        samples.current.set(job.id, recent);
+        const elapsed = (now - recent[0].at) / 1000;
+        const bytesPerSecond = elapsed > 0 ? (bytes - recent[0].bytes) / elapsed : undefined;
+        updateJob(job.id, j => ({ ...j, message: status.status, layers: { ...layers }, bytesPerSecond }));
+      }, controller.signal);
+      hadSuccess.current = true;
+      const digest = await installedDigest(service, job.model);
+      const message = job.previousDigest === undefined || digest === undefined
+        ? 'Pulled'
+        : digest === job.previousDigest ? 'Already up to date' : 'Updated to a newer version';
+      updateJob(job.id, j => ({ ...j, status: 'done', message, digest, bytesPerSecond: undefined, finishedAt: Date.now() }));
+    } catch (err) {
+      const cancelled = isAbortError(err);
+      if (!cancelled) console.error(`Failed to pull ${job.model}:`, err);
+      updateJob(job.id, j => ({
+        ...j,
+        status: cancelled ? 'cancelled' : 'failed',
+        message: cancelled ? 'Cancelled' : describeError(err),
+        bytesPerSecond: undefined,
+        finishedAt: Date.now(),
+      }));
+    } finally {
+      controllers.current.delete(job.id);
+      samples.current.delete(job.id);
+    }
+  }, [hostProfiles, hostAuth, updateJob]);
+
+  // Starts queued jobs in order while there's a free slot.
+  useEffect(() => {
+    let running = jobs.filter(job => job.status === 'pulling').length;
+    for (const job of jobs) {
+      if (running >= MAX_CONCURRENT_PULLS) break;
+      if (job.status === 'queued' && !controllers.current.has(job.id)) {
+        runJob(job);
+        running++;
+      }
+    }
+    if (!jobs.some(isActivePull) && hadSuccess.current) {
+      hadSuccess.current = false;
+      onDrainedRef.current();
+    }
+  }, [jobs, runJob]);
+
+  const enqueue = useCallback((hostId: string, model: string, options: PullJobOptions = {}): string => {
+    const id = createId();
+    setJobs(prev => [...prev, { id, hostId, model, status: 'queued', message: 'Waiting…', layers: {}, addedAt: Date.now(), ...options }]);
+    return id;
+  }, []);
+
+  const cancel = useCallback((id: string) => {
+    const controller = controllers.current.get(id);
+    if (controller) {
+      controller.abort();
+    } else {
+      updateJob(id, job => (job.status === 'queued' ? { ...job, status: 'cancelled', message: 'Cancelled', finishedAt: Date.now() } : job));
+    }
+  }, [updateJob]);
+
+  const clearFinished = useCallback(() => {
+    setJobs(prev => prev.filter(isActivePull));
+  }, []);
+
+  return { jobs, enqueue, cancel, clearFinished };
+}
@@ -0,0 +1,124 @@
+import { useCallback, useMemo, useRef } from 'react';
+import type { ToolCallRecord, ToolDecision } from '../types';
+import { BUILT_IN_TOOLS } from '../services/browserTools';
+import type { ToolContext, ToolDefinition } from '../services/browserTools';
+import { useLocalStorage } from './useLocalStorage';
+import { validateToolArguments } from '../utils/toolCalls';
+
+const abortError = () => new DOMException('Tool call cancelled', 'AbortError');
+
+/**
+ * Which tools the model may call, which run without asking, and the approval
+ * handshake between the tool loop in App and the cards in the chat.
+ * `extraTools` (e.g. from MCP servers) are offered next to the built-in ones.
+ */
+export function useToolCalling(extraTools: ToolDefinition[]) {
+  const [toolsEnabled, setToolsEnabled] = useLocalStorage<boolean>('toolsEnabled', true);
+  const [disabledTools, setDisabledTools] = useLocalStorage<string[]>('disabledTools', []);
+  const [autoApprovedTools, setAutoApprovedTools] = useLocalStorage<string[]>('autoApprovedTools', []);
+  const resolvers = useRef(new Map<string, (decision: ToolDecision) => void>());
+  // The loop runs across renders, so it reads the latest settings from here.
+  const autoApprovedRef = useRef(autoApprovedTools);
+  autoApprovedRef.current = autoApprovedTools;
+
+  const registry = useMemo(() => [...BUILT_IN_TOOLS, ...extraTools], [extraTools]);
+  const activeTools = useMemo(
+    () => (toolsEnabled ? registry.filter(tool => !disabledTools.includes(tool.name)) : []),
+    [registry, toolsEnabled, disabledTools]
+  );
+
+  const setToolEnabled = (name: string, enabled: boolean) => {
+    setDisabledTools(enabled ? disabledTools.filter(n => n !== name) : [...disabledTools, name]);
+  };
+
+  const setToolAutoApproved = (name: string, autoApproved: boolean) => {
+    setAutoApprovedTools(autoApproved ? [...autoApprovedTools.filter(n => n !== name), name] : autoApprovedTools.filter(n => n !== name));
+  };
+
+  const decide = (id: string, decision: ToolDecision) => {
+    resolvers.current.get(id)?.(decision);
+  };
+
+  const waitForDecision = useCallback((id: string, signal: AbortSignal) => new Promise<ToolDecision>((resolve, reject) => {
+    if (signal.aborted) {
+      reject(abortError());
+      return;
+    }
+    const onAbort = () => {
+      resolvers.current.delete(id);
+      reject(abortError());
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+    resolvers.current.set(id, (decision) => {
+      signal.removeEventListener('abort', onAbort);
+      resolvers.current.delete(id);
+      resolve(decision);
+    });
+  }), []);
+
+  /**
+   * Asks for approval if needed, then runs the call. `onUpdate` gets every
+   * status change; the returned record holds the result for the model.
+   * Rejects with an AbortError if the signal fires while waiting.
+   */
+  const executeToolCall = useCallback(async (
+    call: ToolCallRecord,
+    tools: ToolDefinition[],
+    context: ToolContext & { signal: AbortSignal },
+    onUpdate: (call: ToolCallRecord) => void
+  ): Promise<ToolCallRecord> => {
+    const finish = (patch: Partial<ToolCallRecord>): ToolCallRecord => {
+      const finished = { ...call, ...patch };
+      onUpdate(finished);
+      return finished;
+    };
+
+    const tool = tools.find(t => t.name === call.name);
+    if (!tool) {
+      return finish({ status: 'error', result: `Error: there is no tool named "${call.name}".` });
+    }
+    const invalid = validateToolArguments(tool.parameters, call.arguments);
+    if (invalid) {
+      return finish({ status: 'error', result: `Error: ${invalid}` });
+    }
+
+    if (!autoApprovedRef.current.includes(tool.name)) {
+      onUpdate({ ...call, status: 'awaiting-approval' });
+      const decision = await waitForDecision(call.id, context.signal);
+      if (decision === 'deny') {
+        return finish({ status: 'denied', result: 'The user declined this tool call.' });
+      }
+      if (decision === 'always') {
+        autoApprovedRef.current = [...autoApprovedRef.current, tool.name];
+        setAutoApprovedTools(autoApprovedRef.current);
+      }
+    }
+
+    onUpdate({ ...call, status: 'running' });
+    try {
+      const result = await tool.run(call.arguments, context);
+      return finish({ status: 'done', result });
+    } catch (err) {
+      if (context.signal.aborted) throw abortError();
+      return finish({ status: 'error', result: `Error: ${err instanceof Error ? err.message : String(err)}` });
+    }
+    // setAutoApprovedTools changes identity every render; the ref above carries the value.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [waitForDecision]);
+
+  return {
+    registry,
+    activeTools,
+    toolsEnabled,
+    setToolsEnabled,
+    disabledTools,
+    setToolEnabled,
+    autoApprovedTools,
+    setToolAutoApproved,
+    decide,
+    executeToolCall,
+  };
+}
+
+/** The settings half of useToolCalling, as shown in the sidebar. */
+export type ToolSettings = Omit<ReturnType<typeof useToolCalling>, 'activeTools' | 'decide' | 'executeToolCall'>;
@@ -0,0 +1,132 @@
+import type { JsonSchema, OllamaTool } from '../types';
+import { evaluateExpression } from '../utils/mathExpression';
+import { SUPPORTED_UNITS, convertUnits } from '../utils/unitConversion';
+
+export interface ToolContext {
+  conversationId: string;
+  signal?: AbortSignal;
+}
+
+/**
+ * A function the model may call. `run` returns the text sent back to the
+ * model; throwing reports the message to the model as a tool error.
+ */
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  parameters: JsonSchema;
+  /** Asked before the call runs, unless the user always allows this tool. */
+  approvalPrompt: (args: Record<string, unknown>) => string;
+  run: (args: Record<string, unknown>, context: ToolContext) => Promise<string> | string;
+}
+
+const SCRATCHPAD_KEY = 'toolScratchpads';
+
+const readScratchpads = (): Record<string, string> => {
+  try {
+    return JSON.parse(window.localStorage.getItem(SCRATCHPAD_KEY) ?? '{}');
+  } catch {
+    return {};
+  }
+};
+
+const formatNumber = (value: number): string =>
+  Number.isInteger(value) ? String(value) : String(Number(value.toPrecision(12)));
+
+const calculator: ToolDefinition = {
+  name: 'calculator',
+  description: 'Evaluates an arithmetic expression exactly. Supports + - * / % ^, parentheses, pi, e, sqrt, abs, round, floor, ceil, sin, cos, tan (radians), ln and log (base 10).',
+  parameters: {
+    type: 'object',
+    properties: {
+      expression: { type: 'string', description: 'The expression, e.g. "(3.5 + 2) * 4^2"' },
+    },
+    required: ['expression'],
+  },
+  approvalPrompt: ({ expression }) => `Calculate ${String(expression)}?`,
+  run: ({ expression }) => {
+    const result = evaluateExpression(String(expression));
+    if (!Number.isFinite(result)) throw new Error(`The result is ${result}.`);
+    return formatNumber(result);
+  },
+};
+
+const currentTime: ToolDefinition = {
+  name: 'current_time',
+  description: "Returns the current date and time, in the user's time zone unless another IANA time zone is given.",
+  parameters: {
+    type: 'object',
+    properties: {
+      timezone: { type: 'string', description: 'IANA time zone such as "Europe/Berlin". Optional.' },
+    },
+  },
+  approvalPrompt: ({ timezone }) => (timezone ? `Share the current time in ${String(timezone)}?` : 'Share your current date, time and time zone?'),
+  run: ({ timezone }) => {
+    const timeZone = typeof timezone === 'string' && timezone ? timezone : Intl.DateTimeFormat().resolvedOptions().timeZone;
+    try {
+      const formatted = new Intl.DateTimeFormat('en-US', { dateStyle: 'full', timeStyle: 'long', timeZone }).format(new Date());
+      return `${formatted} (${timeZone}); ISO ${new Date().toISOString()}`;
+    } catch {
+      throw new Error(`Unknown time zone "${timeZone}".`);
+    }
+  },
+};
+
+const unitConverter: ToolDefinition = {
+  name: 'convert_units',
+  description: `Converts a value between units of length, mass, volume, speed, area or temperature. Units: ${SUPPORTED_UNITS.join(', ')}.`,
+  parameters: {
+    type: 'object',
+    properties: {
+      value: { type: 'number', description: 'The amount to convert' },
+      from: { type: 'string', description: 'Unit of the value, e.g. "mi"' },
+      to: { type: 'string', description: 'Unit to convert to, e.g. "km"' },
+    },
+    required: ['value', 'from', 'to'],
+  },
+  approvalPrompt: ({ value, from, to }) => `Convert ${String(value)} ${String(from)} to ${String(to)}?`,
+  run: ({ value, from, to }) => `${formatNumber(convertUnits(Number(value), String(from), String(to)))} ${String(to)}`,
+};
+
+// One scratchpad per conversation, kept in localStorage.
+const scratchpad: ToolDefinition = {
+  name: 'scratchpad',
+  description: 'A notepad that persists for this conversation. Use it to keep notes, lists or intermediate results across turns.',
+  parameters: {
+    type: 'object',
+    properties: {
+      action: { type: 'string', enum: ['read', 'write', 'append', 'clear'], description: 'What to do with the scratchpad' },
+      text: { type: 'string', description: 'Text for write or append' },
+    },
+    required: ['action'],
+  },
+  approvalPrompt: ({ action }) => (action === 'read' ? 'Let the model read its scratchpad?' : `Let the model ${String(action)} its scratchpad?`),
+  run: ({ action, text }, { conversationId }) => {
+    const pads = readScratchpads();
+    const current = pads[conversationId] ?? '';
+    switch (action) {
+      case 'read':
+        return current || '(the scratchpad is empty)';
+      case 'write':
+        pads[conversationId] = String(text ?? '');
+        break;
+      case 'append':
+        pads[conversationId] = current ? `${current}\n${String(text ?? '')}` : String(text ?? '');
+        break;
+      case 'clear':
+        delete pads[conversationId];
+        break;
+      default:
+        throw new Error(`Unknown action "${String(action)}".`);
+    }
+    window.localStorage.setItem(SCRATCHPAD_KEY, JSON.stringify(pads));
+    return 'OK';
+  },
+};
+
+export const BUILT_IN_TOOLS: ToolDefinition[] = [calculator, currentTime, unitConverter, scratchpad];
+
+export const toOllamaTool = ({ name, description, parameters }: ToolDefinition): OllamaTool => ({
+  type: 'function',
+  function: { name, description, parameters },
+});
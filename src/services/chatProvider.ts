@@ -0,0 +1,50 @@
+import { OllamaService } from './ollamaService';
+import { OpenAiCompatibleService } from './openAiService';
+import type {
+  ChatMessage,
+  HostAuth,
+  HostProfile,
+  KeepAlive,
+  OllamaModelInfo,
+  OllamaOptions,
+  OllamaPullStatus,
+  OllamaResponseStats,
+  OllamaTagResponse,
+  OllamaTool,
+  OllamaToolCall,
+  ProviderKind,
+} from '../types';
+
+export interface StreamChatOptions {
+  signal?: AbortSignal;
+  options?: OllamaOptions;
+  keepAlive?: KeepAlive; // Ollama only; the server default applies when omitted
+  // Ollama only. Each call the model makes is passed to onToolCall; the caller
+  // runs it and sends the result back in the next request.
+  tools?: OllamaTool[];
+  onToolCall?: (call: OllamaToolCall) => void;
+}
+
+/**
+ * What the UI needs from a chat backend. Model lists and stats use Ollama's
+ * shapes; other backends translate into them. Ollama-only features are
+ * optional and hidden when a provider doesn't have them.
+ */
+export interface ChatProvider {
+  readonly kind: ProviderKind;
+  listModels(signal?: AbortSignal): Promise<OllamaTagResponse>;
+  streamChat(
+    model: string,
+    messages: ChatMessage[],
+    onChunk: (chunk: string) => void,
+    options?: StreamChatOptions
+  ): Promise<OllamaResponseStats | undefined>;
+  getModelInfo?(modelName: string, signal?: AbortSignal): Promise<OllamaModelInfo>;
+  pullModel?(modelName: string, onProgress: (status: OllamaPullStatus) => void, signal?: AbortSignal): Promise<void>;
+}
+
+export function createProvider(host: HostProfile, auth?: HostAuth): ChatProvider {
+  return host.provider === 'openai'
+    ? new OpenAiCompatibleService(host.url, auth)
+    : new OllamaService(host.url, auth);
+}
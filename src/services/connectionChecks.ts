@@ -0,0 +1,119 @@
+import { OllamaService, isAbortError } from './ollamaService';
+import { createProvider } from './chatProvider';
+import { isMixedContent, isReachableIgnoringCors } from './connectionDiagnosis';
+import { authHeaders } from '../utils/hostAuth';
+import type { HostAuth, HostProfile } from '../types';
+
+const errorMessage = (err: unknown): string => (err instanceof Error ? err.message : String(err));
+
+export type DiagnosticCheckId = 'mixedContent' | 'reachable' | 'corsPreflight' | 'version' | 'tags' | 'proxy';
+export type DiagnosticStatus = 'pass' | 'fail' | 'skipped';
+
+export interface DiagnosticResult {
+  id: DiagnosticCheckId;
+  status: DiagnosticStatus;
+  detail: string;
+  /** The underlying failure, when there was one. */
+  error?: unknown;
+}
+
+export const DIAGNOSTIC_CHECKS: { id: DiagnosticCheckId; label: string }[] = [
+  { id: 'mixedContent', label: 'Page and host use compatible protocols' },
+  { id: 'reachable', label: 'Host is reachable' },
+  { id: 'corsPreflight', label: 'CORS preflight is accepted' },
+  { id: 'version', label: 'GET /api/version' },
+  { id: 'tags', label: 'Model list loads' },
+  { id: 'proxy', label: 'Same-origin /api proxy answers' },
+];
+
+/**
+ * Browser version of test_ollama.sh: runs each check in order and reports it
+ * through `onResult` as soon as it finishes. Checks that can't run because an
+ * earlier one failed, or that only apply to Ollama hosts, are reported as
+ * skipped. Rejects with an AbortError when `signal` fires.
+ */
+export async function runDiagnostics(
+  host: HostProfile,
+  auth: HostAuth | undefined,
+  onResult: (result: DiagnosticResult) => void,
+  signal?: AbortSignal
+): Promise<void> {
+  const baseUrl = host.url.endsWith('/') ? host.url.slice(0, -1) : host.url;
+  const isOllama = (host.provider ?? 'ollama') === 'ollama';
+  const report = (id: DiagnosticCheckId, status: DiagnosticStatus, detail: string, error?: unknown) => {
+    signal?.throwIfAborted();
+    onResult({ id, status, detail, error });
+  };
+
+  const mixedContent = isMixedContent(baseUrl);
+  report(
+    'mixedContent',
+    mixedContent ? 'fail' : 'pass',
+    mixedContent
+      ? `This page is served over HTTPS but ${baseUrl} is plain HTTP, so the browser blocks every request.`
+      : `Page is ${window.location.protocol.slice(0, -1).toUpperCase()}; the browser will allow requests to this host.`
+  );
+
+  let reachable = false;
+  if (mixedContent) {
+    report('reachable', 'skipped', 'The browser blocks the request before it is sent.');
+  } else {
+    reachable = await isReachableIgnoringCors(baseUrl, signal);
+    report('reachable', reachable ? 'pass' : 'fail', reachable ? `${baseUrl} answered.` : `Nothing answered at ${baseUrl}.`);
+  }
+
+  if (!reachable) {
+    const reason = 'Skipped because the host could not be reached.';
+    report('corsPreflight', 'skipped', reason);
+    report('version', 'skipped', reason);
+    report('tags', 'skipped', reason);
+  } else {
+    try {
+      // A JSON Content-Type (and any auth header) makes this a non-simple request, so the browser sends an OPTIONS preflight first.
+      const preflightUrl = isOllama ? `${baseUrl}/api/version` : `${baseUrl.replace(/\/v1$/, '')}/v1/models`;
+      await fetch(preflightUrl, {
+        headers: { ...authHeaders(auth), 'Content-Type': 'application/json' },
+        cache: 'no-store',
+        signal,
+      });
+      report('corsPreflight', 'pass', `The host allows requests from ${window.location.origin}.`);
+    } catch (err) {
+      if (isAbortError(err)) throw err;
+      report('corsPreflight', 'fail', `The host does not allow requests from ${window.location.origin}.`, err);
+    }
+
+    if (!isOllama) {
+      report('version', 'skipped', 'Only Ollama hosts have /api/version.');
+    } else {
+      try {
+        const { version } = await new OllamaService(baseUrl, auth).getVersion(signal);
+        report('version', 'pass', `Ollama ${version}.`);
+      } catch (err) {
+        if (isAbortError(err)) throw err;
+        report('version', 'fail', errorMessage(err), err);
+      }
+    }
+
+    try {
+      const { models } = await createProvider(host, auth).listModels(signal);
+      report('tags', 'pass', `${models.length} model${models.length === 1 ? '' : 's'} installed.`);
+    } catch (err) {
+      if (isAbortError(err)) throw err;
+      report('tags', 'fail', errorMessage(err), err);
+    }
+  }
+
+  if (!isOllama) {
+    report('proxy', 'skipped', 'The /api proxy only forwards to Ollama.');
+  } else if (baseUrl === window.location.origin) {
+    report('proxy', 'skipped', 'The host already points at this page, so it is the proxy.');
+  } else {
+    try {
+      const { version } = await new OllamaService(window.location.origin).getVersion(signal);
+      report('proxy', 'pass', `${window.location.origin}/api reaches Ollama ${version}.`);
+    } catch (err) {
+      if (isAbortError(err)) throw err;
+      report('proxy', 'fail', `${window.location.origin}/api did not answer like Ollama.`, err);
+    }
+  }
+}
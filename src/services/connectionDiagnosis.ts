@@ -0,0 +1,49 @@
+import { CorsError, MixedContentError, NetworkError, TlsError } from './errors';
+
+// Browsers treat loopback as a secure origin, so an HTTPS page may still call http://localhost.
+const LOOPBACK_HOSTS = ['localhost', '127.0.0.1', '[::1]'];
+
+export function isMixedContent(hostUrl: string): boolean {
+  if (window.location.protocol !== 'https:') return false;
+  try {
+    const url = new URL(hostUrl, window.location.href);
+    return url.protocol === 'http:' && !LOOPBACK_HOSTS.includes(url.hostname);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * A no-cors request succeeds (with an opaque response) whenever the server
+ * answers at all, so it tells "server is up but CORS blocked us" apart from
+ * "nothing is listening".
+ */
+export async function isReachableIgnoringCors(url: string, signal?: AbortSignal): Promise<boolean> {
+  try {
+    await fetch(url, { mode: 'no-cors', cache: 'no-store', signal });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * fetch() reports CORS blocks, TLS failures and dead hosts with the same
+ * TypeError, so probe the host to work out which one it was.
+ */
+export async function classifyFetchFailure(host: string, url: string): Promise<NetworkError> {
+  if (isMixedContent(url)) {
+    return new MixedContentError(host);
+  }
+  if (await isReachableIgnoringCors(url)) {
+    return new CorsError(host);
+  }
+  try {
+    if (new URL(url, window.location.href).protocol === 'https:') {
+      return new TlsError(host);
+    }
+  } catch {
+    // Fall through to a plain network error for unparsable URLs.
+  }
+  return new NetworkError(host);
+}
@@ -0,0 +1,71 @@
+import type { Conversation } from '../types';
+
+const DB_NAME = 'saintpopeye-connect';
+const DB_VERSION = 1;
+const CONVERSATIONS_STORE = 'conversations';
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export class ConversationStore {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+          reject(new Error('IndexedDB is not available in this browser.'));
+          return;
+        }
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(CONVERSATIONS_STORE)) {
+            const store = db.createObjectStore(CONVERSATIONS_STORE, { keyPath: 'id' });
+            store.createIndex('updatedAt', 'updatedAt');
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+      // Allow a later call to retry if opening failed.
+      this.dbPromise.catch(() => {
+        this.dbPromise = null;
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async store(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    const db = await this.open();
+    return db.transaction(CONVERSATIONS_STORE, mode).objectStore(CONVERSATIONS_STORE);
+  }
+
+  /** Returns every saved conversation, most recently updated first. */
+  async list(): Promise<Conversation[]> {
+    const store = await this.store('readonly');
+    const conversations = await requestToPromise(store.getAll() as IDBRequest<Conversation[]>);
+    return conversations.sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  async get(id: string): Promise<Conversation | undefined> {
+    const store = await this.store('readonly');
+    return requestToPromise(store.get(id) as IDBRequest<Conversation | undefined>);
+  }
+
+  async put(conversation: Conversation): Promise<void> {
+    const store = await this.store('readwrite');
+    await requestToPromise(store.put(conversation));
+  }
+
+  async delete(id: string): Promise<void> {
+    const store = await this.store('readwrite');
+    await requestToPromise(store.delete(id));
+  }
+}
+
+export const conversationStore = new ConversationStore();
@@ -0,0 +1,91 @@
+/** Base class for every error raised by OllamaService. */
+export class OllamaError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+/** The request never got a response. Subclasses narrow down why. */
+export class NetworkError extends OllamaError {
+  constructor(readonly host: string, message = `Could not reach Ollama at ${host}.`) {
+    super(message);
+  }
+}
+
+/** The host answers, but the browser hid the response because of the CORS policy. */
+export class CorsError extends NetworkError {
+  constructor(host: string) {
+    super(host, `Ollama at ${host} is reachable but blocked this page's request (CORS).`);
+  }
+}
+
+/** An HTTPS page tried to call a plain-HTTP host, which browsers block outright. */
+export class MixedContentError extends NetworkError {
+  constructor(host: string) {
+    super(host, `This page is served over HTTPS and cannot call the HTTP host ${host}.`);
+  }
+}
+
+/** An HTTPS host whose certificate the browser doesn't trust, typically a self-signed one. */
+export class TlsError extends NetworkError {
+  constructor(host: string) {
+    super(host, `The TLS certificate of ${host} was rejected, or the host is down.`);
+  }
+}
+
+/** Ollama answered with a non-2xx status. `body` is Ollama's `error` text when it sent one. */
+export class HttpError extends OllamaError {
+  constructor(readonly status: number, readonly body: string, message = `Ollama returned HTTP ${status}${body ? `: ${body}` : ''}`) {
+    super(message);
+  }
+}
+
+/** 401/403: the host (usually a reverse proxy in front of Ollama) wants credentials. */
+export class AuthenticationError extends HttpError {
+  constructor(status: number, body: string) {
+    super(status, body, status === 401 ? 'This host requires credentials.' : 'The credentials for this host were rejected.');
+  }
+}
+
+export class ModelNotFoundError extends HttpError {
+  constructor(readonly model: string, status: number, body: string) {
+    super(status, body, `Model "${model}" is not installed on this host.`);
+  }
+}
+
+export class ImagesNotSupportedError extends OllamaError {
+  constructor(readonly model: string, readonly detail: string) {
+    super(`Model "${model}" cannot read images.`);
+  }
+}
+
+/** Ollama reported an error in the middle of a streamed response, e.g. `{"error": "..."}`. */
+export class OllamaStreamError extends OllamaError {}
+
+/** A streamed line could not be parsed as JSON. */
+export class StreamParseError extends OllamaError {
+  constructor(readonly line: string) {
+    super(`Received malformed data from Ollama: ${line.length > 200 ? `${line.slice(0, 200)}…` : line}`);
+  }
+}
+
+const IMAGES_UNSUPPORTED = /image/i;
+const IMAGES_UNSUPPORTED_REASON = /not support|missing data|vision/i;
+
+/**
+ * Picks the most specific error for an Ollama error message. `status` is
+ * undefined for errors that arrive inside a stream.
+ */
+export function errorFromOllamaMessage(message: string, status: number | undefined, model?: string): OllamaError {
+  if (status === 401 || status === 403) {
+    return new AuthenticationError(status, message);
+  }
+  if (model && IMAGES_UNSUPPORTED.test(message) && IMAGES_UNSUPPORTED_REASON.test(message)) {
+    return new ImagesNotSupportedError(model, message);
+  }
+  if (model && /not found/i.test(message) && (status === undefined || status === 404)) {
+    return new ModelNotFoundError(model, status ?? 404, message);
+  }
+  return status === undefined ? new OllamaStreamError(message) : new HttpError(status, message);
+}
@@ -0,0 +1,53 @@
+import { classifyFetchFailure } from './connectionDiagnosis';
+import { errorFromOllamaMessage } from './errors';
+
+// fetch() and reader.read() reject with a DOMException named 'AbortError' once the signal fires.
+export const isAbortError = (err: unknown): boolean =>
+  err instanceof DOMException && err.name === 'AbortError';
+
+export type RequestOptions = RequestInit & { headers?: Record<string, string> };
+
+/**
+ * Error bodies come as `{"error": "..."}` from Ollama and `{"error": {"message": "..."}}`
+ * from OpenAI-compatible servers; fall back to the raw text otherwise.
+ */
+async function readErrorBody(response: Response): Promise<string> {
+  const text = await response.text().catch(() => '');
+  try {
+    const { error } = JSON.parse(text) as { error?: unknown };
+    if (typeof error === 'string') return error;
+    if (typeof error === 'object' && error !== null && typeof (error as { message?: unknown }).message === 'string') {
+      return (error as { message: string }).message;
+    }
+  } catch {
+    // Not JSON; use the text as-is.
+  }
+  return text.trim();
+}
+
+/**
+ * fetch() that adds `headers` (the host's auth) and turns every failure into
+ * an OllamaError subclass. `model` lets 404s and image errors name the model
+ * involved. Aborts are rethrown untouched.
+ */
+export async function sendRequest(
+  baseUrl: string,
+  path: string,
+  headers: Record<string, string>,
+  init: RequestOptions = {},
+  model?: string
+): Promise<Response> {
+  const url = `${baseUrl}${path}`;
+  let response: Response;
+  try {
+    response = await fetch(url, { ...init, headers: { ...headers, ...init.headers } });
+  } catch (err) {
+    if (isAbortError(err) || !(err instanceof TypeError)) throw err;
+    throw await classifyFetchFailure(baseUrl, url);
+  }
+  if (!response.ok) {
+    const body = await readErrorBody(response);
+    throw errorFromOllamaMessage(body, response.status, model);
+  }
+  return response;
+}
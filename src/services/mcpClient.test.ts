@@ -0,0 +1,134 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { McpClient, McpError, McpToolError, mcpToolName } from './mcpClient';
+import { StandInMcpServer } from '../test/mcpServer';
+import type { StandInOptions, StandInTool } from '../test/mcpServer';
+
+const SERVER_URL = 'http://mcp.test/mcp';
+
+const echo: StandInTool = {
+  name: 'echo',
+  description: 'Repeats the text back.',
+  inputSchema: { type: 'object', properties: { text: { type: 'string' } }, required: ['text'] },
+  call: ({ text }) => ({ content: [{ type: 'text', text: String(text) }] }),
+};
+
+const failing: StandInTool = {
+  name: 'read_file',
+  call: ({ path }) => ({ content: [{ type: 'text', text: `No such file: ${String(path)}` }], isError: true }),
+};
+
+const startServer = (options: Partial<StandInOptions> = {}) => {
+  const server = new StandInMcpServer({ tools: [echo, failing], ...options });
+  vi.stubGlobal('fetch', vi.fn(server.handle));
+  return server;
+};
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('McpClient', () => {
+  it('initializes once, then sends the session id and protocol version with every request', async () => {
+    const server = startServer();
+    const client = new McpClient(SERVER_URL);
+    await client.listTools();
+    await client.callTool('echo', { text: 'hi' });
+
+    expect(server.received.map(r => r.method)).toEqual(['initialize', 'notifications/initialized', 'tools/list', 'tools/call']);
+    expect(server.received[0]).toEqual({ method: 'initialize', sessionId: null, protocolVersion: null });
+    for (const request of server.received.slice(1)) {
+      expect(request).toMatchObject({ sessionId: 'session-1', protocolVersion: '2025-06-18' });
+    }
+  });
+
+  it('follows tools/list cursors across pages', async () => {
+    const tools = Array.from({ length: 5 }, (_, i): StandInTool => ({ ...echo, name: `tool_${i}` }));
+    const server = startServer({ tools, pageSize: 2 });
+    const listed = await new McpClient(SERVER_URL).listTools();
+
+    expect(listed.map(t => t.name)).toEqual(['tool_0', 'tool_1', 'tool_2', 'tool_3', 'tool_4']);
+    expect(server.received.filter(r => r.method === 'tools/list')).toHaveLength(3);
+  });
+
+  it('gives a tool without an input schema an empty object schema', async () => {
+    startServer();
+    const listed = await new McpClient(SERVER_URL).listTools();
+    expect(listed.find(t => t.name === 'read_file')?.inputSchema).toEqual({ type: 'object', properties: {} });
+    expect(listed.find(t => t.name === 'echo')?.inputSchema).toEqual(echo.inputSchema);
+  });
+
+  it.each(['json', 'sse'] as const)('reads %s responses', async (responseMode) => {
+    startServer({ responseMode });
+    const client = new McpClient(SERVER_URL);
+    expect((await client.listTools()).map(t => t.name)).toEqual(['echo', 'read_file']);
+    expect(await client.callTool('echo', { text: 'héllo' })).toBe('héllo');
+  });
+
+  it('throws McpToolError with the tool output when the result has isError', async () => {
+    startServer({ responseMode: 'sse' });
+    const call = new McpClient(SERVER_URL).callTool('read_file', { path: '/nope' });
+    await expect(call).rejects.toBeInstanceOf(McpToolError);
+    await expect(call).rejects.toThrow('No such file: /nope');
+  });
+
+  it('throws McpError for a JSON-RPC error', async () => {
+    startServer();
+    await expect(new McpClient(SERVER_URL).callTool('missing', {})).rejects.toThrow(new McpError('Unknown tool: missing'));
+  });
+
+  it('starts a new session and retries when the server has forgotten the old one', async () => {
+    const server = startServer();
+    const client = new McpClient(SERVER_URL);
+    await client.listTools();
+    server.expireSessions();
+
+    expect(await client.callTool('echo', { text: 'again' })).toBe('again');
+    expect(server.received.map(r => `${r.method} ${r.sessionId}`)).toEqual([
+      'initialize null',
+      'notifications/initialized session-1',
+      'tools/list session-1',
+      'tools/call session-1',
+      'initialize null',
+      'notifications/initialized session-2',
+      'tools/call session-2',
+    ]);
+  });
+
+  it('sends credentials and reports a rejected token', async () => {
+    startServer({ requiredToken: 'secret' });
+    expect(await new McpClient(SERVER_URL, { type: 'bearer', token: 'secret' }).callTool('echo', { text: 'ok' })).toBe('ok');
+    await expect(new McpClient(SERVER_URL, { type: 'bearer', token: 'wrong' }).listTools()).rejects.toThrow('This MCP server requires credentials.');
+  });
+
+  it('keeps the shared handshake going when one waiting caller aborts', async () => {
+    const server = startServer();
+    const release = server.holdInitialize();
+    const client = new McpClient(SERVER_URL);
+    const controller = new AbortController();
+    const aborted = client.callTool('echo', { text: 'first' }, controller.signal);
+    const waiting = client.callTool('echo', { text: 'second' });
+
+    controller.abort();
+    await expect(aborted).rejects.toMatchObject({ name: 'AbortError' });
+    release();
+    expect(await waiting).toBe('second');
+    expect(server.received.map(r => r.method)).toEqual(['initialize', 'notifications/initialized', 'tools/call']);
+  });
+
+  it('ends the session on close', async () => {
+    const server = startServer();
+    const client = new McpClient(SERVER_URL);
+    await client.listTools();
+    await client.close();
+    expect(server.received[server.received.length - 1]).toEqual({ method: 'DELETE', sessionId: 'session-1', protocolVersion: null });
+  });
+});
+
+describe('mcpToolName', () => {
+  it('gives servers whose names slug alike different prefixes', () => {
+    const files = mcpToolName({ id: '3f2c9a1e-0b7d-4c55-9e1a-7d41c0a2b9f1', name: 'Files', url: SERVER_URL }, 'read_file');
+    const other = mcpToolName({ id: 'm1x2y3z4-k9q8w7e6', name: 'files!', url: SERVER_URL }, 'read_file');
+    expect(files).toBe('files_a2b9f1__read_file');
+    expect(other).toBe('files_q8w7e6__read_file');
+  });
+});
@@ -0,0 +1,245 @@
+import { readSse } from './sse';
+import { isAbortError } from './http';
+import { authHeaders } from '../utils/hostAuth';
+import { isRecord } from '../utils/guards';
+import type { HostAuth, JsonSchema, McpServer, McpToolInfo } from '../types';
+
+const PROTOCOL_VERSION = '2025-06-18';
+const CLIENT_INFO = { name: 'saintpopeye-connect', version: '1.0.0' };
+// tools/list is paginated; a server that keeps handing out cursors is cut off here.
+const MAX_TOOL_PAGES = 20;
+
+interface JsonRpcMessage {
+  jsonrpc: '2.0';
+  id?: number | string;
+  method?: string;
+  params?: Record<string, unknown>;
+  result?: unknown;
+  error?: { code: number; message: string; data?: unknown };
+}
+
+interface McpContent {
+  type: string;
+  text?: string;
+  mimeType?: string;
+  resource?: { uri: string; text?: string };
+}
+
+interface McpCallToolResult {
+  content?: McpContent[];
+  structuredContent?: unknown;
+  isError?: boolean;
+}
+
+/** Base class for every error raised by McpClient. */
+export class McpError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+/** The server ran the tool, and the tool reported a failure (`isError` in the result). */
+export class McpToolError extends McpError {}
+
+// The server forgot our session (HTTP 404 on a request that carried one); reconnecting fixes it.
+class SessionExpiredError extends McpError {}
+
+const contentToText = (result: McpCallToolResult): string => {
+  if (!result.content?.length) {
+    return result.structuredContent !== undefined ? JSON.stringify(result.structuredContent) : '';
+  }
+  return result.content
+    .map(item => {
+      if (item.type === 'text') return item.text ?? '';
+      if (item.type === 'resource') return item.resource?.text ?? item.resource?.uri ?? '';
+      // Images and audio can't be passed on to the model as a tool result.
+      return `[${item.type}${item.mimeType ? ` ${item.mimeType}` : ''}]`;
+    })
+    .join('\n');
+};
+
+// Ollama expects an object schema; servers occasionally leave `type` out.
+const toParameters = (schema: unknown): JsonSchema =>
+  isRecord(schema) ? { ...schema, type: 'object' } : { type: 'object', properties: {} };
+
+/**
+ * The name a server's tool is offered to the model under, prefixed so servers can't clash.
+ * Names like "Files" and "files!" slug alike, so the prefix ends with the tail of the
+ * server id (the random part of both id formats).
+ */
+export const mcpToolName = (server: McpServer, tool: string): string => {
+  const slug = server.name.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '') || 'mcp';
+  return `${slug}_${server.id.toLowerCase().replace(/[^a-z0-9]/g, '').slice(-6)}__${tool}`;
+};
+
+// Lets one caller stop waiting on a promise that others share, without cancelling it for them.
+const untilAborted = <T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> => {
+  if (!signal) return promise;
+  const aborted = () => new DOMException('The operation was aborted.', 'AbortError');
+  if (signal.aborted) return Promise.reject(aborted());
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(aborted());
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+};
+
+/**
+ * A Model Context Protocol client for the streamable HTTP transport. Every
+ * JSON-RPC request is a POST; the server answers with JSON or with an SSE
+ * stream that carries the response. The session is set up on first use and
+ * set up again if the server drops it.
+ */
+export class McpClient {
+  private headers: Record<string, string>;
+  private sessionId: string | null = null;
+  private protocolVersion: string | null = null;
+  private connection: Promise<void> | null = null;
+  private nextId = 1;
+
+  constructor(readonly url: string, auth?: HostAuth) {
+    this.headers = authHeaders(auth);
+  }
+
+  private async post(message: JsonRpcMessage, signal?: AbortSignal): Promise<Response> {
+    let response: Response;
+    try {
+      response = await fetch(this.url, {
+        method: 'POST',
+        headers: {
+          ...this.headers,
+          'Content-Type': 'application/json',
+          Accept: 'application/json, text/event-stream',
+          ...(this.sessionId ? { 'Mcp-Session-Id': this.sessionId } : {}),
+          ...(this.protocolVersion ? { 'MCP-Protocol-Version': this.protocolVersion } : {}),
+        },
+        body: JSON.stringify(message),
+        signal,
+      });
+    } catch (err) {
+      if (isAbortError(err) || !(err instanceof TypeError)) throw err;
+      throw new McpError(`Could not reach the MCP server at ${this.url}. It may be down, or not allow requests from this page (CORS).`);
+    }
+    if (response.status === 404 && this.sessionId) {
+      throw new SessionExpiredError('The MCP session expired.');
+    }
+    if (response.status === 401 || response.status === 403) {
+      throw new McpError(response.status === 401 ? 'This MCP server requires credentials.' : 'The credentials for this MCP server were rejected.');
+    }
+    if (!response.ok) {
+      const body = (await response.text().catch(() => '')).trim();
+      throw new McpError(`The MCP server returned HTTP ${response.status}${body ? `: ${body.slice(0, 200)}` : ''}`);
+    }
+    return response;
+  }
+
+  // Servers may send notifications or requests of their own on the stream before our response.
+  private async readResponse(response: Response, id: number): Promise<JsonRpcMessage> {
+    if (!response.headers.get('Content-Type')?.includes('text/event-stream')) {
+      return (await response.json()) as JsonRpcMessage;
+    }
+    if (!response.body) throw new McpError('The MCP server sent an empty stream.');
+    for await (const message of readSse<JsonRpcMessage>(response.body)) {
+      if (message.id === id && (message.result !== undefined || message.error !== undefined)) return message;
+    }
+    throw new McpError('The MCP server closed the stream without answering.');
+  }
+
+  private async send<T>(method: string, params: Record<string, unknown>, signal?: AbortSignal): Promise<T> {
+    const id = this.nextId++;
+    const response = await this.post({ jsonrpc: '2.0', id, method, params }, signal);
+    if (method === 'initialize') {
+      // Only readable from the browser if the server lists it in Access-Control-Expose-Headers.
+      this.sessionId = response.headers.get('Mcp-Session-Id');
+    }
+    let message: JsonRpcMessage;
+    try {
+      message = await this.readResponse(response, id);
+    } catch (err) {
+      if (isAbortError(err)) this.notifyCancelled(id);
+      throw err;
+    }
+    if (message.error) throw new McpError(message.error.message);
+    return message.result as T;
+  }
+
+  private async notify(method: string, params?: Record<string, unknown>): Promise<void> {
+    const response = await this.post({ jsonrpc: '2.0', method, ...(params ? { params } : {}) });
+    await response.body?.cancel();
+  }
+
+  // Best effort: the request is gone either way, this just lets the server stop working on it.
+  private notifyCancelled(requestId: number) {
+    this.notify('notifications/cancelled', { requestId, reason: 'Cancelled by the user' }).catch(() => undefined);
+  }
+
+  private async initialize(): Promise<void> {
+    this.sessionId = null;
+    this.protocolVersion = null;
+    const result = await this.send<{ protocolVersion?: string }>('initialize', {
+      protocolVersion: PROTOCOL_VERSION,
+      capabilities: {},
+      clientInfo: CLIENT_INFO,
+    });
+    this.protocolVersion = result.protocolVersion ?? PROTOCOL_VERSION;
+    await this.notify('notifications/initialized');
+  }
+
+  // Concurrent requests share one handshake, so it isn't tied to any caller's signal;
+  // each caller only gives up its own wait.
+  private connect(signal?: AbortSignal): Promise<void> {
+    this.connection ??= this.initialize().catch(err => {
+      this.connection = null;
+      throw err;
+    });
+    return untilAborted(this.connection, signal);
+  }
+
+  private async request<T>(method: string, params: Record<string, unknown>, signal?: AbortSignal): Promise<T> {
+    await this.connect(signal);
+    try {
+      return await this.send<T>(method, params, signal);
+    } catch (err) {
+      if (!(err instanceof SessionExpiredError)) throw err;
+      this.connection = null;
+      await this.connect(signal);
+      return this.send<T>(method, params, signal);
+    }
+  }
+
+  async listTools(signal?: AbortSignal): Promise<McpToolInfo[]> {
+    const tools: McpToolInfo[] = [];
+    let cursor: string | undefined;
+    for (let page = 0; page < MAX_TOOL_PAGES; page++) {
+      const result = await this.request<{ tools?: { name: string; description?: string; inputSchema?: unknown }[]; nextCursor?: string }>(
+        'tools/list',
+        cursor ? { cursor } : {},
+        signal
+      );
+      for (const tool of result.tools ?? []) {
+        tools.push({ name: tool.name, description: tool.description, inputSchema: toParameters(tool.inputSchema) });
+      }
+      cursor = result.nextCursor;
+      if (!cursor) break;
+    }
+    return tools;
+  }
+
+  /** Runs a tool and returns its output as text. A tool-side failure throws McpToolError. */
+  async callTool(name: string, args: Record<string, unknown>, signal?: AbortSignal): Promise<string> {
+    const result = await this.request<McpCallToolResult>('tools/call', { name, arguments: args }, signal);
+    const text = contentToText(result);
+    if (result.isError) throw new McpToolError(text || `The tool "${name}" failed without saying why.`);
+    return text;
+  }
+
+  /** Ends the session on the server, if one was started. */
+  async close(): Promise<void> {
+    const sessionId = this.sessionId;
+    this.connection = null;
+    this.sessionId = null;
+    if (!sessionId) return;
+    await fetch(this.url, { method: 'DELETE', headers: { ...this.headers, 'Mcp-Session-Id': sessionId } }).catch(() => undefined);
+  }
+}
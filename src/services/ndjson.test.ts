@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { readNdjson } from './ndjson';
+import { collect, streamOf } from '../test/streams';
+import { OllamaStreamError, StreamParseError } from './errors';
+
+describe('readNdjson', () => {
+  it('yields one object per line when reads line up with lines', async () => {
+    expect(await collect(readNdjson(streamOf('{"a":1}\n', '{"a":2}\n')))).toEqual([{ a: 1 }, { a: 2 }]);
+  });
+
+  it('reassembles objects split across reads', async () => {
+    const body = streamOf('{"message":{"con', 'tent":"Hel"}}\n{"mess', 'age":{"content":"lo"}}\n');
+    expect(await collect(readNdjson(body))).toEqual([
+      { message: { content: 'Hel' } },
+      { message: { content: 'lo' } },
+    ]);
+  });
+
+  it('handles several lines in one read', async () => {
+    expect(await collect(readNdjson(streamOf('{"a":1}\n{"a":2}\n{"a":3}\n')))).toEqual([{ a: 1 }, { a: 2 }, { a: 3 }]);
+  });
+
+  it('decodes a multibyte character split between reads', async () => {
+    const bytes = new TextEncoder().encode('{"content":"héllo 🦙"}\n');
+    const cut = bytes.indexOf(0xc3) + 1; // inside the two bytes of "é"
+    const emoji = bytes.indexOf(0xf0) + 2; // inside the four bytes of the emoji
+    const body = streamOf(bytes.slice(0, cut), bytes.slice(cut, emoji), bytes.slice(emoji));
+    expect(await collect(readNdjson(body))).toEqual([{ content: 'héllo 🦙' }]);
+  });
+
+  it('parses a final line without a trailing newline', async () => {
+    expect(await collect(readNdjson(streamOf('{"a":1}\n{"done":', 'true}')))).toEqual([{ a: 1 }, { done: true }]);
+  });
+
+  it('skips blank lines', async () => {
+    expect(await collect(readNdjson(streamOf('\n{"a":1}\n\n  \n{"a":2}\n')))).toEqual([{ a: 1 }, { a: 2 }]);
+  });
+
+  it('throws an error object sent mid-stream as OllamaStreamError, after the lines before it', async () => {
+    const seen: unknown[] = [];
+    const reading = (async () => {
+      for await (const item of readNdjson(streamOf('{"a":1}\n{"err', 'or":"model ran out of memory"}\n{"a":2}\n'))) seen.push(item);
+    })();
+    await expect(reading).rejects.toThrow(OllamaStreamError);
+    await expect(reading).rejects.toThrow('model ran out of memory');
+    expect(seen).toEqual([{ a: 1 }]);
+  });
+
+  it('throws StreamParseError for a malformed line', async () => {
+    await expect(collect(readNdjson(streamOf('{"a":1}\nnot json\n')))).rejects.toThrow(StreamParseError);
+  });
+
+  it('cancels the body when the consumer stops early', async () => {
+    let cancelled = false;
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(new TextEncoder().encode('{"a":1}\n{"a":2}\n'));
+      },
+      cancel() {
+        cancelled = true;
+      },
+    });
+    for await (const item of readNdjson(body)) {
+      expect(item).toEqual({ a: 1 });
+      break;
+    }
+    expect(cancelled).toBe(true);
+  });
+});
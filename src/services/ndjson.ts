@@ -0,0 +1,61 @@
+import { OllamaStreamError, StreamParseError } from './errors';
+
+/**
+ * Reads a newline-delimited JSON stream and yields one parsed object per line.
+ *
+ * Network reads don't line up with JSON objects: one read can hold several
+ * lines and a line can be split across reads, so partial lines are buffered
+ * until their newline arrives. A last line without a trailing newline is still
+ * parsed once the stream ends. Objects with an `error` field are thrown as
+ * OllamaStreamError. Stopping iteration early cancels the underlying stream.
+ */
+export async function* readNdjson<T>(body: ReadableStream<Uint8Array>): AsyncGenerator<T, void, undefined> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let finished = false;
+
+  const parseLine = (line: string): T | undefined => {
+    if (!line.trim()) return undefined;
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(line);
+    } catch {
+      throw new StreamParseError(line);
+    }
+    if (typeof parsed === 'object' && parsed !== null && typeof (parsed as { error?: unknown }).error === 'string') {
+      throw new OllamaStreamError((parsed as { error: string }).error);
+    }
+    return parsed as T;
+  };
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) {
+        finished = true;
+        buffer += decoder.decode();
+        break;
+      }
+      buffer += decoder.decode(value, { stream: true });
+
+      let boundary = buffer.indexOf('\n');
+      while (boundary !== -1) {
+        const line = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary + 1);
+        const parsed = parseLine(line);
+        if (parsed !== undefined) yield parsed;
+        boundary = buffer.indexOf('\n');
+      }
+    }
+
+    const last = parseLine(buffer);
+    if (last !== undefined) yield last;
+  } finally {
+    if (!finished) {
+      // The consumer stopped early or something threw: don't leave the request running.
+      await reader.cancel().catch(() => undefined);
+    }
+    reader.releaseLock();
+  }
+}
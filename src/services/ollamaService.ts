@@ -1,120 +1,193 @@
-import type { OllamaTagResponse, OllamaChatChunk, ChatMessage, OllamaPullStatus, OllamaModelInfo } from '../types';
+import { readNdjson } from './ndjson';
+import { sendRequest } from './http';
+import type { RequestOptions } from './http';
+import type { ChatProvider, StreamChatOptions } from './chatProvider';
+import { HttpError, OllamaStreamError, errorFromOllamaMessage } from './errors';
+import { authHeaders } from '../utils/hostAuth';
+import type { HostAuth, OllamaProcessResponse, OllamaTagResponse, OllamaVersion, OllamaChatChunk, ChatMessage, OllamaPullStatus, OllamaModelInfo, OllamaResponseStats } from '../types';
 
-export class OllamaService {
+export { isAbortError } from './http';
+
+// Only send the fields Ollama understands; the rest is app-side bookkeeping.
+const toWireMessage = ({ role, content, images }: ChatMessage) =>
+  images && images.length > 0 ? { role, content, images } : { role, content };
+
+// A reply that used tools is stored as one message; Ollama expects each round
+// as an assistant message with tool_calls followed by one tool message per call.
+const toWireMessages = (message: ChatMessage) => {
+  const rounds = message.toolRounds ?? [];
+  return [
+    ...rounds.flatMap(round => [
+      {
+        role: 'assistant',
+        content: round.content,
+        tool_calls: round.calls.map(call => ({ function: { name: call.name, arguments: call.arguments } })),
+      },
+      ...round.calls.map(call => ({ role: 'tool', content: call.result ?? '', tool_name: call.name })),
+    ]),
+    // While the tool loop runs, the reply has no final answer yet.
+    ...(rounds.length === 0 || message.content ? [toWireMessage(message)] : []),
+  ];
+};
+
+const pickResponseStats = (chunk: OllamaChatChunk): OllamaResponseStats => ({
+  total_duration: chunk.total_duration,
+  load_duration: chunk.load_duration,
+  prompt_eval_count: chunk.prompt_eval_count,
+  prompt_eval_duration: chunk.prompt_eval_duration,
+  eval_count: chunk.eval_count,
+  eval_duration: chunk.eval_duration,
+});
+
+export class OllamaService implements ChatProvider {
+  readonly kind = 'ollama';
   private baseUrl: string;
+  private headers: Record<string, string>;
 
-  constructor(baseUrl: string) {
+  constructor(baseUrl: string, auth?: HostAuth) {
     this.baseUrl = baseUrl.endsWith('/') ? baseUrl.slice(0, -1) : baseUrl;
+    this.headers = authHeaders(auth);
   }
 
-  async listModels(): Promise<OllamaTagResponse> {
-    const response = await fetch(`${this.baseUrl}/api/tags`);
-    if (!response.ok) {
-      throw new Error('Failed to fetch models from Ollama.');
-    }
+  private request(path: string, init?: RequestOptions, model?: string): Promise<Response> {
+    return sendRequest(this.baseUrl, path, this.headers, init, model);
+  }
+
+  async getVersion(signal?: AbortSignal): Promise<OllamaVersion> {
+    const response = await this.request('/api/version', { signal });
+    return response.json();
+  }
+
+  async listModels(signal?: AbortSignal): Promise<OllamaTagResponse> {
+    const response = await this.request('/api/tags', { signal });
     return response.json();
   }
   
-  async getModelInfo(modelName: string): Promise<OllamaModelInfo> {
-    const response = await fetch(`${this.baseUrl}/api/show`, {
+  async listRunningModels(signal?: AbortSignal): Promise<OllamaProcessResponse> {
+    const response = await this.request('/api/ps', { signal });
+    return response.json();
+  }
+
+  // A request with no prompt and keep_alive 0 makes Ollama evict the model right away.
+  async unloadModel(modelName: string): Promise<void> {
+    await this.request('/api/generate', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ model: modelName, keep_alive: 0 }),
+    }, modelName);
+  }
+
+  async deleteModel(modelName: string): Promise<void> {
+    await this.request('/api/delete', {
+      method: 'DELETE',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name: modelName }),
+    }, modelName);
+  }
+
+  async copyModel(source: string, destination: string): Promise<void> {
+    await this.request('/api/copy', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ source, destination }),
+    }, source);
+  }
+
+  async getModelInfo(modelName: string, signal?: AbortSignal): Promise<OllamaModelInfo> {
+    const response = await this.request('/api/show', {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
       },
       body: JSON.stringify({ name: modelName }),
-    });
-    if (!response.ok) {
-      throw new Error(`Failed to fetch model info for ${modelName}.`);
-    }
+      signal,
+    }, modelName);
     return response.json();
   }
 
 
-  async pullModel(modelName: string, onProgress: (status: OllamaPullStatus) => void): Promise<void> {
-    const response = await fetch(`${this.baseUrl}/api/pull`, {
+  async pullModel(
+    modelName: string,
+    onProgress: (status: OllamaPullStatus) => void,
+    signal?: AbortSignal
+  ): Promise<void> {
+    const response = await this.request('/api/pull', {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
       },
       body: JSON.stringify({ name: modelName, stream: true }),
+      signal,
     });
 
     if (!response.body) {
-      throw new Error('Response body is null');
+      throw new HttpError(response.status, '', 'Ollama sent an empty response.');
     }
 
-    const reader = response.body.getReader();
-    const decoder = new TextDecoder();
+    for await (const status of readNdjson<OllamaPullStatus>(response.body)) {
+      onProgress(status);
+    }
+  }
 
-    try {
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-        const chunk = decoder.decode(value, { stream: true });
-        
-        // Sometimes multiple JSON objects come in one chunk
-        const jsonObjects = chunk.split('\n').filter(s => s.trim() !== '');
-        jsonObjects.forEach(jsonObj => {
-          try {
-            const parsed = JSON.parse(jsonObj);
-            onProgress(parsed as OllamaPullStatus);
-          } catch (e) {
-            console.error("Failed to parse pull status chunk:", e, jsonObj);
-          }
-        });
-      }
-    } finally {
-      reader.releaseLock();
+  // `request` comes from toCreateRequest; /api/create streams the same status lines as /api/pull.
+  async createModel(
+    request: Record<string, unknown>,
+    onProgress: (status: OllamaPullStatus) => void,
+    signal?: AbortSignal
+  ): Promise<void> {
+    const response = await this.request('/api/create', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(request),
+      signal,
+    }, typeof request.from === 'string' ? request.from : undefined);
+
+    if (!response.body) {
+      throw new HttpError(response.status, '', 'Ollama sent an empty response.');
+    }
+
+    for await (const status of readNdjson<OllamaPullStatus>(response.body)) {
+      onProgress(status);
     }
   }
 
   async streamChat(
     model: string,
     messages: ChatMessage[],
-    onChunk: (chunk: string) => void
-  ): Promise<void> {
-    const response = await fetch(`${this.baseUrl}/api/chat`, {
+    onChunk: (chunk: string) => void,
+    { signal, options, keepAlive, tools, onToolCall }: StreamChatOptions = {}
+  ): Promise<OllamaResponseStats | undefined> {
+    const response = await this.request('/api/chat', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ model, messages, stream: true }),
-    });
+      body: JSON.stringify({
+        model,
+        messages: messages.flatMap(toWireMessages),
+        stream: true,
+        options,
+        keep_alive: keepAlive,
+        tools: tools && tools.length > 0 ? tools : undefined,
+      }),
+      signal,
+    }, model);
 
     if (!response.body) {
-      throw new Error('Response body is null');
+      throw new HttpError(response.status, '', 'Ollama sent an empty response.');
     }
 
-    const reader = response.body.getReader();
-    const decoder = new TextDecoder();
-    
-    let buffer = '';
-
-    while (true) {
-      const { done, value } = await reader.read();
-      if (done) {
-        break;
-      }
-      buffer += decoder.decode(value, { stream: true });
-
-      // Process complete JSON objects from the buffer
-      let boundary = buffer.indexOf('\n');
-      while (boundary !== -1) {
-        const jsonStr = buffer.substring(0, boundary);
-        buffer = buffer.substring(boundary + 1);
-        if (jsonStr.trim()) {
-          try {
-            const chunk = JSON.parse(jsonStr) as OllamaChatChunk;
-            if (chunk.message && chunk.message.content) {
-              onChunk(chunk.message.content);
-            }
-            if (chunk.done) {
-              return;
-            }
-          } catch (e) {
-            console.error('Failed to parse chat chunk:', e, jsonStr);
-          }
+    try {
+      for await (const chunk of readNdjson<OllamaChatChunk>(response.body)) {
+        if (chunk.message && chunk.message.content) {
+          onChunk(chunk.message.content);
+        }
+        chunk.message?.tool_calls?.forEach(call => onToolCall?.(call));
+        if (chunk.done) {
+          return pickResponseStats(chunk);
         }
-        boundary = buffer.indexOf('\n');
       }
+    } catch (err) {
+      throw err instanceof OllamaStreamError ? errorFromOllamaMessage(err.message, undefined, model) : err;
     }
+    return undefined;
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,147 @@
+import { readSse } from './sse';
+import { sendRequest } from './http';
+import type { RequestOptions } from './http';
+import type { ChatProvider, StreamChatOptions } from './chatProvider';
+import { HttpError, errorFromOllamaMessage } from './errors';
+import { authHeaders } from '../utils/hostAuth';
+import type { ChatMessage, HostAuth, OllamaOptions, OllamaResponseStats, OllamaTagResponse } from '../types';
+
+interface OpenAiModelList {
+  data: { id: string; created?: number }[];
+}
+
+interface OpenAiChatChunk {
+  choices?: { delta?: { content?: string | null }; finish_reason?: string | null }[];
+  usage?: { prompt_tokens?: number; completion_tokens?: number } | null;
+  error?: string | { message?: string };
+}
+
+const NS_PER_MS = 1_000_000;
+
+// Images are stored as bare base64, but OpenAI wants data URLs, so sniff the type from the magic bytes.
+const IMAGE_SIGNATURES: [prefix: string, mimeType: string][] = [
+  ['/9j/', 'image/jpeg'],
+  ['iVBORw0KGgo', 'image/png'],
+  ['R0lGOD', 'image/gif'],
+  ['UklGR', 'image/webp'],
+];
+
+const toDataUrl = (base64: string): string => {
+  const mimeType = IMAGE_SIGNATURES.find(([prefix]) => base64.startsWith(prefix))?.[1] ?? 'image/jpeg';
+  return `data:${mimeType};base64,${base64}`;
+};
+
+const toWireMessage = ({ role, content, images }: ChatMessage) =>
+  images && images.length > 0
+    ? {
+        role,
+        content: [
+          { type: 'text', text: content },
+          ...images.map(image => ({ type: 'image_url', image_url: { url: toDataUrl(image) } })),
+        ],
+      }
+    : { role, content };
+
+// num_ctx and repeat_penalty have no portable equivalent (the context size is
+// fixed when the server starts), so they are left out. top_k isn't in the
+// OpenAI spec but llama.cpp, vLLM and LM Studio all accept it.
+const toRequestOptions = (options: OllamaOptions = {}) => {
+  const mapped: Record<string, unknown> = {
+    temperature: options.temperature,
+    top_p: options.top_p,
+    top_k: options.top_k,
+    max_tokens: options.num_predict,
+    seed: options.seed,
+    stop: options.stop,
+  };
+  return Object.fromEntries(Object.entries(mapped).filter(([, value]) => value !== undefined));
+};
+
+const chunkError = (chunk: OpenAiChatChunk): string | undefined =>
+  typeof chunk.error === 'string' ? chunk.error : chunk.error?.message;
+
+/**
+ * Provider for servers that speak the OpenAI `/v1/models` and
+ * `/v1/chat/completions` API, such as llama.cpp server, vLLM and LM Studio.
+ */
+export class OpenAiCompatibleService implements ChatProvider {
+  readonly kind = 'openai';
+  private baseUrl: string;
+  private headers: Record<string, string>;
+
+  // Accepts the server root or its /v1 URL.
+  constructor(baseUrl: string, auth?: HostAuth) {
+    const trimmed = baseUrl.endsWith('/') ? baseUrl.slice(0, -1) : baseUrl;
+    this.baseUrl = trimmed.endsWith('/v1') ? trimmed : `${trimmed}/v1`;
+    this.headers = authHeaders(auth);
+  }
+
+  private request(path: string, init?: RequestOptions, model?: string): Promise<Response> {
+    return sendRequest(this.baseUrl, path, this.headers, init, model);
+  }
+
+  async listModels(signal?: AbortSignal): Promise<OllamaTagResponse> {
+    const response = await this.request('/models', { signal });
+    const { data } = (await response.json()) as OpenAiModelList;
+    return {
+      models: data.map(model => ({
+        name: model.id,
+        modified_at: model.created ? new Date(model.created * 1000).toISOString() : '',
+        size: 0, // not reported by the OpenAI API
+      })),
+    };
+  }
+
+  async streamChat(
+    model: string,
+    messages: ChatMessage[],
+    onChunk: (chunk: string) => void,
+    { signal, options }: StreamChatOptions = {}
+  ): Promise<OllamaResponseStats | undefined> {
+    const startedAt = performance.now();
+    const response = await this.request('/chat/completions', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        model,
+        messages: messages.map(toWireMessage),
+        stream: true,
+        // Asks for a final chunk with token counts.
+        stream_options: { include_usage: true },
+        ...toRequestOptions(options),
+      }),
+      signal,
+    }, model);
+
+    if (!response.body) {
+      throw new HttpError(response.status, '', 'The server sent an empty response.');
+    }
+
+    let usage: OpenAiChatChunk['usage'];
+    let firstTokenAt: number | undefined;
+    for await (const chunk of readSse<OpenAiChatChunk>(response.body)) {
+      const error = chunkError(chunk);
+      if (error) {
+        throw errorFromOllamaMessage(error, undefined, model);
+      }
+      const content = chunk.choices?.[0]?.delta?.content;
+      if (content) {
+        firstTokenAt ??= performance.now();
+        onChunk(content);
+      }
+      if (chunk.usage) {
+        usage = chunk.usage;
+      }
+    }
+
+    if (!usage) return undefined;
+    // The API only reports token counts, so durations are measured here and include network time.
+    const finishedAt = performance.now();
+    return {
+      prompt_eval_count: usage.prompt_tokens,
+      eval_count: usage.completion_tokens,
+      total_duration: Math.round((finishedAt - startedAt) * NS_PER_MS),
+      eval_duration: firstTokenAt !== undefined ? Math.round((finishedAt - firstTokenAt) * NS_PER_MS) : undefined,
+    };
+  }
+}
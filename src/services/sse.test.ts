@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { readSse } from './sse';
+import { collect, streamOf } from '../test/streams';
+import { StreamParseError } from './errors';
+
+describe('readSse', () => {
+  it('yields the JSON payload of each event', async () => {
+    expect(await collect(readSse(streamOf('data: {"a":1}\n\ndata: {"a":2}\n\n')))).toEqual([{ a: 1 }, { a: 2 }]);
+  });
+
+  it('reassembles events split across reads', async () => {
+    const body = streamOf('data: {"choices":[{"del', 'ta":{"content":"Hi"}}]}\n', '\ndata: {"a"', ':2}\n\n');
+    expect(await collect(readSse(body))).toEqual([{ choices: [{ delta: { content: 'Hi' } }] }, { a: 2 }]);
+  });
+
+  it('decodes a multibyte character split between reads', async () => {
+    const bytes = new TextEncoder().encode('data: {"content":"héllo 🦙"}\n\n');
+    const cut = bytes.indexOf(0xc3) + 1;
+    const emoji = bytes.indexOf(0xf0) + 3;
+    const body = streamOf(bytes.slice(0, cut), bytes.slice(cut, emoji), bytes.slice(emoji));
+    expect(await collect(readSse(body))).toEqual([{ content: 'héllo 🦙' }]);
+  });
+
+  it('delivers a final event without a trailing blank line', async () => {
+    expect(await collect(readSse(streamOf('data: {"a":1}\n\ndata: {"a":2}')))).toEqual([{ a: 1 }, { a: 2 }]);
+  });
+
+  it('handles CRLF line endings and ignores comments, event and id lines', async () => {
+    const body = streamOf(': keep-alive\r\n\r\nevent: message\r\nid: 7\r\ndata: {"a":1}\r\n\r\n');
+    expect(await collect(readSse(body))).toEqual([{ a: 1 }]);
+  });
+
+  it('joins multi-line data fields', async () => {
+    expect(await collect(readSse(streamOf('data: {"a":\ndata: 1}\n\n')))).toEqual([{ a: 1 }]);
+  });
+
+  it('stops at [DONE] and cancels the rest of the stream', async () => {
+    let cancelled = false;
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(new TextEncoder().encode('data: {"a":1}\n\ndata: [DONE]\n\ndata: {"a":2}\n\n'));
+      },
+      cancel() {
+        cancelled = true;
+      },
+    });
+    expect(await collect(readSse(body))).toEqual([{ a: 1 }]);
+    expect(cancelled).toBe(true);
+  });
+
+  it('passes a mid-stream error object through for the caller to raise', async () => {
+    const body = streamOf('data: {"a":1}\n\ndata: {"error":{"message":"context', ' length exceeded"}}\n\n');
+    expect(await collect(readSse(body))).toEqual([{ a: 1 }, { error: { message: 'context length exceeded' } }]);
+  });
+
+  it('throws StreamParseError for a malformed payload', async () => {
+    await expect(collect(readSse(streamOf('data: {"a":1}\n\ndata: nope\n\n')))).rejects.toThrow(StreamParseError);
+  });
+});
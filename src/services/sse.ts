@@ -0,0 +1,62 @@
+import { StreamParseError } from './errors';
+
+/**
+ * Reads a server-sent events stream and yields the parsed JSON of each `data:`
+ * payload, as sent by OpenAI-compatible chat endpoints. Ends at `data: [DONE]`
+ * or when the stream closes. Comments, `event:` and `id:` lines are ignored.
+ * Stopping iteration early cancels the underlying stream.
+ */
+export async function* readSse<T>(body: ReadableStream<Uint8Array>): AsyncGenerator<T, void, undefined> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let data: string[] = [];
+  let finished = false;
+
+  // Returns false once the end-of-stream marker arrives.
+  const dispatch = function* (): Generator<T, boolean, undefined> {
+    if (data.length === 0) return true;
+    const payload = data.join('\n');
+    data = [];
+    if (payload === '[DONE]') return false;
+    try {
+      yield JSON.parse(payload) as T;
+    } catch (err) {
+      if (err instanceof SyntaxError) throw new StreamParseError(payload);
+      throw err;
+    }
+    return true;
+  };
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+      // A final event without a trailing blank line is still delivered.
+      if (done) buffer += '\n\n';
+
+      let boundary = buffer.indexOf('\n');
+      while (boundary !== -1) {
+        const line = buffer.slice(0, boundary).replace(/\r$/, '');
+        buffer = buffer.slice(boundary + 1);
+        if (line === '') {
+          if (!(yield* dispatch())) return;
+        } else if (line.startsWith('data:')) {
+          data.push(line.slice(5).replace(/^ /, ''));
+        }
+        boundary = buffer.indexOf('\n');
+      }
+
+      if (done) {
+        finished = true;
+        return;
+      }
+    }
+  } finally {
+    if (!finished) {
+      // The consumer stopped early, [DONE] arrived, or something threw: don't leave the request running.
+      await reader.cancel().catch(() => undefined);
+    }
+    reader.releaseLock();
+  }
+}
@@ -0,0 +1,126 @@
+// A stand-in MCP server speaking the streamable HTTP transport, for tests.
+// `handle` takes the place of fetch(), so no port or network is involved.
+
+export interface StandInTool {
+  name: string;
+  description?: string;
+  inputSchema?: unknown;
+  call: (args: Record<string, unknown>) => { content: { type: string; text?: string }[]; isError?: boolean };
+}
+
+export interface StandInOptions {
+  tools: StandInTool[];
+  responseMode?: 'json' | 'sse';
+  pageSize?: number;
+  requiredToken?: string;
+}
+
+export interface ReceivedRequest {
+  method: string; // JSON-RPC method, or the HTTP method for DELETE
+  sessionId: string | null;
+  protocolVersion: string | null;
+}
+
+interface RpcBody {
+  id?: number | string;
+  method: string;
+  params?: Record<string, unknown>;
+}
+
+const json = (body: unknown, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(body), { status: 200, headers: { 'Content-Type': 'application/json', ...headers } });
+
+export class StandInMcpServer {
+  readonly received: ReceivedRequest[] = [];
+  private sessions = new Set<string>();
+  private nextSession = 1;
+  private initializeGate: Promise<void> | null = null;
+
+  constructor(private options: StandInOptions) {}
+
+  /** Forgets every session, as a restarted server would. */
+  expireSessions() {
+    this.sessions.clear();
+  }
+
+  /** Holds back answers to initialize until the returned function is called. */
+  holdInitialize(): () => void {
+    let release = () => {};
+    this.initializeGate = new Promise(resolve => { release = resolve; });
+    return release;
+  }
+
+  handle = async (_url: string | URL | Request, init: RequestInit = {}): Promise<Response> => {
+    const headers = new Headers(init.headers);
+    const sessionId = headers.get('Mcp-Session-Id');
+    if (this.options.requiredToken && headers.get('Authorization') !== `Bearer ${this.options.requiredToken}`) {
+      return new Response('unauthorized', { status: 401 });
+    }
+
+    if (init.method === 'DELETE') {
+      this.received.push({ method: 'DELETE', sessionId, protocolVersion: null });
+      if (sessionId) this.sessions.delete(sessionId);
+      return new Response(null, { status: 200 });
+    }
+
+    const body = JSON.parse(String(init.body)) as RpcBody;
+    this.received.push({ method: body.method, sessionId, protocolVersion: headers.get('MCP-Protocol-Version') });
+
+    if (body.method === 'initialize') {
+      const gate = this.initializeGate;
+      if (gate) {
+        // Like fetch(), a held request rejects once its signal fires.
+        await new Promise<void>((resolve, reject) => {
+          init.signal?.addEventListener('abort', () => reject(new DOMException('The operation was aborted.', 'AbortError')), { once: true });
+          void gate.then(resolve);
+        });
+      }
+      const session = `session-${this.nextSession++}`;
+      this.sessions.add(session);
+      return json(
+        { jsonrpc: '2.0', id: body.id, result: { protocolVersion: '2025-06-18', capabilities: { tools: {} }, serverInfo: { name: 'stand-in', version: '0' } } },
+        { 'Mcp-Session-Id': session }
+      );
+    }
+    if (!sessionId) return new Response('missing session', { status: 400 });
+    if (!this.sessions.has(sessionId)) return new Response('unknown session', { status: 404 });
+    if (body.id === undefined) return new Response(null, { status: 202 });
+
+    return this.respond(body.id, this.dispatch(body));
+  };
+
+  private dispatch(body: RpcBody): { result?: unknown; error?: { code: number; message: string } } {
+    const { tools, pageSize = tools.length } = this.options;
+    switch (body.method) {
+      case 'tools/list': {
+        const start = Number(body.params?.cursor ?? 0);
+        const page = tools.slice(start, start + pageSize);
+        const next = start + pageSize;
+        return {
+          result: {
+            tools: page.map(({ name, description, inputSchema }) => ({ name, description, inputSchema })),
+            ...(next < tools.length ? { nextCursor: String(next) } : {}),
+          },
+        };
+      }
+      case 'tools/call': {
+        const tool = tools.find(t => t.name === body.params?.name);
+        if (!tool) return { error: { code: -32602, message: `Unknown tool: ${String(body.params?.name)}` } };
+        return { result: tool.call((body.params?.arguments ?? {}) as Record<string, unknown>) };
+      }
+      default:
+        return { error: { code: -32601, message: `Method not found: ${body.method}` } };
+    }
+  }
+
+  // In SSE mode a progress notification goes out first, as real servers do.
+  private respond(id: number | string, payload: object): Response {
+    const message = { jsonrpc: '2.0', id, ...payload };
+    if (this.options.responseMode !== 'sse') return json(message);
+    const events = [
+      { jsonrpc: '2.0', method: 'notifications/message', params: { level: 'info', data: 'working' } },
+      message,
+    ].map(event => `event: message\ndata: ${JSON.stringify(event)}\n\n`).join('');
+    return new Response(events, { status: 200, headers: { 'Content-Type': 'text/event-stream' } });
+  }
+}
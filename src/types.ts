@@ -1,27 +1,146 @@
 export interface ChatMessage {
-  role: 'user' | 'assistant';
+  role: 'system' | 'user' | 'assistant';
   content: string;
   images?: string[]; // Array of base64 encoded images
+  interrupted?: boolean; // Set when the user stopped generation before the model finished
+  createdAt?: number; // epoch ms
+  model?: string; // which model produced an assistant message
+  stats?: ResponseStats;
+  toolRounds?: ToolRound[]; // tool calls made before `content`, the final answer
+}
+
+export type ToolCallStatus = 'awaiting-approval' | 'running' | 'done' | 'error' | 'denied' | 'cancelled';
+
+// One tool call requested by the model and what became of it.
+export interface ToolCallRecord {
+  id: string;
+  name: string;
+  arguments: Record<string, unknown>;
+  status: ToolCallStatus;
+  result?: string; // sent back to the model as the tool message
+}
+
+// The user's answer to a tool call waiting for approval.
+export type ToolDecision = 'approve' | 'deny' | 'always';
+
+// Text the model wrote in one step of the tool loop, and the calls it ended with.
+export interface ToolRound {
+  content: string;
+  calls: ToolCallRecord[];
+}
+
+// The subset of JSON Schema used to describe tool parameters.
+export interface JsonSchema {
+  type?: 'object' | 'string' | 'number' | 'integer' | 'boolean' | 'array';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  enum?: (string | number)[];
+  items?: JsonSchema;
+}
+
+// A tool as sent in the `tools` array of /api/chat.
+export interface OllamaTool {
+  type: 'function';
+  function: {
+    name: string;
+    description: string;
+    parameters: JsonSchema;
+  };
+}
+
+export interface OllamaToolCall {
+  function: {
+    name: string;
+    arguments: Record<string, unknown>;
+  };
+}
+
+// Subset of the Ollama `options` object exposed in the parameters panel.
+export interface OllamaOptions {
+  temperature?: number;
+  top_k?: number;
+  top_p?: number;
+  num_ctx?: number;
+  num_predict?: number;
+  repeat_penalty?: number;
+  seed?: number;
+  stop?: string[];
+}
+
+// One message in a conversation tree. Editing or regenerating a message adds
+// a sibling under the same parent instead of overwriting it.
+export interface MessageNode {
+  id: string;
+  parentId: string | null;
+  childIds: string[];
+  activeChildId: string | null; // which branch is shown below this node
+  message: ChatMessage;
+}
+
+export interface Conversation {
+  id: string;
+  title: string;
+  model: string;
+  createdAt: number; // epoch ms
+  updatedAt: number; // epoch ms
+  nodes: Record<string, MessageNode>;
+  rootIds: string[];
+  activeRootId: string | null;
+  systemPrompt: string;
+  options: OllamaOptions;
+  hostId?: string; // HostProfile the conversation was last run against
+}
+
+// A message on the active path, with the alternatives it can be switched to.
+export interface ThreadMessage {
+  id: string;
+  parentId: string | null;
+  message: ChatMessage;
+  siblingIds: string[];
 }
 
 export interface OllamaModel {
   name: string;
   modified_at: string;
   size: number;
+  digest?: string;
+  details?: OllamaModelDetails; // sent by /api/tags, absent for OpenAI-compatible hosts
 }
 
 export interface OllamaTagResponse {
   models: OllamaModel[];
 }
 
-export interface OllamaChatChunk {
+export interface OllamaVersion {
+  version: string;
+}
+
+// Timing and token counts reported on the final (`done: true`) chunk.
+// Durations are in nanoseconds.
+export interface OllamaResponseStats {
+  total_duration?: number;
+  load_duration?: number;
+  prompt_eval_count?: number;
+  prompt_eval_duration?: number;
+  eval_count?: number;
+  eval_duration?: number;
+}
+
+export interface OllamaChatChunk extends OllamaResponseStats {
   model: string;
   created_at: string;
   message: {
     role: 'assistant';
     content: string;
+    tool_calls?: OllamaToolCall[];
   };
   done: boolean;
+  done_reason?: string;
+}
+
+export interface ResponseStats extends OllamaResponseStats {
+  time_to_first_token_ms?: number; // measured in the browser, includes network and queueing
 }
 
 export interface OllamaPullStatus {
@@ -32,6 +151,54 @@ export interface OllamaPullStatus {
   error?: string;
 }
 
+export type PullJobStatus = 'queued' | 'pulling' | 'done' | 'failed' | 'cancelled';
+
+export interface PullLayerProgress {
+  total: number;
+  completed: number;
+}
+
+// One entry in the pull queue; persisted so a reload keeps tracking it.
+export interface PullJob {
+  id: string;
+  hostId: string;
+  model: string;
+  status: PullJobStatus;
+  message: string; // latest status line from Ollama, or the error
+  layers: Record<string, PullLayerProgress>; // keyed by layer digest
+  bytesPerSecond?: number;
+  addedAt: number;
+  finishedAt?: number;
+  batchId?: string; // groups the pulls of one "update models" run
+  previousDigest?: string; // digest before the pull, for updates of installed models
+  digest?: string; // digest after a successful pull
+}
+
+export type ModelCapability = 'vision' | 'tools' | 'thinking' | 'embedding';
+
+// What a model supports, derived from /api/show and cached per model digest.
+export interface ModelFeatures {
+  capabilities: ModelCapability[];
+  contextLength?: number; // the trained maximum, not the num_ctx in use
+}
+
+// An entry in the bundled model catalog (src/data/modelCatalog.json).
+export interface CatalogTag {
+  tag: string;
+  parameters?: string;
+  quantization?: string;
+  sizeGB?: number; // approximate download size
+}
+
+export interface CatalogModel {
+  name: string;
+  family: string;
+  description: string;
+  capabilities: ModelCapability[];
+  latest?: string; // the tag that `name:latest` points to
+  tags: CatalogTag[];
+}
+
 export interface OllamaModelDetails {
   parent_model: string;
   format: string;
@@ -41,10 +208,101 @@ export interface OllamaModelDetails {
   quantization_level: string;
 }
 
+// A model currently loaded in memory, from /api/ps.
+export interface OllamaRunningModel {
+  name: string;
+  model: string;
+  size: number; // bytes in memory, VRAM included
+  size_vram: number;
+  digest: string;
+  details: OllamaModelDetails;
+  expires_at: string;
+  context_length?: number; // reported by newer Ollama versions
+}
+
+export interface OllamaProcessResponse {
+  models: OllamaRunningModel[];
+}
+
+// How long Ollama keeps a model loaded after a request: a duration such as
+// "10m", or a number of seconds where 0 unloads at once and -1 never unloads.
+export type KeepAlive = string | number;
+
 export interface OllamaModelInfo {
   license: string;
   modelfile: string;
   parameters: string;
   template: string;
   details: OllamaModelDetails;
-}
\ No newline at end of file
+  // Sent by newer Ollama versions. `model_info` holds GGUF metadata such as
+  // "llama.context_length"; `capabilities` lists e.g. "completion", "vision", "tools".
+  model_info?: Record<string, unknown>;
+  capabilities?: string[];
+}
+
+// A saved bundle of model, system prompt and generation options that can be
+// applied to a conversation and shared as JSON.
+export interface AssistantProfile {
+  id: string;
+  name: string;
+  model: string;
+  systemPrompt: string;
+  options: OllamaOptions;
+}
+
+// Which API a host speaks: Ollama's own, or the OpenAI-compatible /v1 API.
+export type ProviderKind = 'ollama' | 'openai';
+
+// A named server the sidebar can switch between.
+export interface HostProfile {
+  id: string;
+  name: string;
+  url: string;
+  defaultModel?: string;
+  provider?: ProviderKind; // defaults to 'ollama'
+}
+
+// Credentials for a host behind an authenticating reverse proxy. Stored apart
+// from HostProfile so profiles can be shared without leaking secrets.
+export type HostAuth =
+  | { type: 'none' }
+  | { type: 'basic'; username: string; password: string }
+  | { type: 'bearer'; token: string }
+  | { type: 'header'; name: string; value: string };
+
+// A saved preference from the model comparison (arena) view.
+export interface ArenaVote {
+  id: string;
+  prompt: string;
+  models: string[]; // in column order (A, B, ...)
+  winner: string | 'tie'; // model name
+  blind: boolean;
+  createdAt: number; // epoch ms
+}
+
+// A Model Context Protocol server reached over the streamable HTTP transport.
+// Credentials are stored apart, by id, like HostAuth for hosts.
+export interface McpServer {
+  id: string;
+  name: string;
+  url: string;
+}
+
+// A tool as listed by an MCP server's tools/list.
+export interface McpToolInfo {
+  name: string;
+  description?: string;
+  inputSchema: JsonSchema;
+}
+
+// One finished call to an MCP tool, newest first in the call log.
+export interface McpCallLogEntry {
+  id: string;
+  serverId: string;
+  tool: string;
+  arguments: Record<string, unknown>;
+  status: 'done' | 'error';
+  result: string;
+  startedAt: number; // epoch ms
+  durationMs: number;
+}
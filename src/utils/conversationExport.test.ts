@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import { conversationToJson, parseConversationImport } from './conversationExport';
+import { getActiveMessages, treeFromMessages } from './messageTree';
+import type { ChatMessage, Conversation, ToolRound } from '../types';
+
+const conversationOf = (messages: ChatMessage[]): Conversation => ({
+  id: 'c1',
+  title: 'Tools',
+  model: 'llama3.1',
+  createdAt: 1_700_000_000_000,
+  updatedAt: 1_700_000_000_000,
+  ...treeFromMessages(messages),
+  systemPrompt: '',
+  options: {},
+});
+
+const rounds: ToolRound[] = [
+  {
+    content: 'Let me work that out.',
+    calls: [{ id: 't1', name: 'calculator', arguments: { expression: '6*7' }, status: 'done', result: '42' }],
+  },
+];
+
+describe('conversation import of tool calls', () => {
+  it('keeps the tool rounds of a reply when re-importing our own export', () => {
+    const exported = conversationOf([
+      { role: 'user', content: 'What is 6*7?' },
+      { role: 'assistant', content: 'It is 42.', toolRounds: rounds },
+    ]);
+    const { conversations, skipped } = parseConversationImport(conversationToJson(exported));
+    expect(skipped).toEqual([]);
+    expect(getActiveMessages(conversations[0])[1]).toEqual({ role: 'assistant', content: 'It is 42.', toolRounds: rounds });
+  });
+
+  it('keeps a reply stopped during the tool loop, and the messages after it', () => {
+    const openRound: ToolRound = {
+      content: '',
+      calls: [{ id: 't2', name: 'current_time', arguments: {}, status: 'awaiting-approval' }],
+    };
+    const exported = conversationOf([
+      { role: 'user', content: 'What time is it?' },
+      { role: 'assistant', content: '', interrupted: true, toolRounds: [openRound] },
+      { role: 'user', content: 'Never mind.' },
+    ]);
+    const { conversations, skipped } = parseConversationImport(conversationToJson(exported));
+    expect(skipped).toEqual([]);
+    const messages = getActiveMessages(conversations[0]);
+    expect(messages.map(m => m.content)).toEqual(['What time is it?', '', 'Never mind.']);
+    // A call left waiting at export time can't be answered after import.
+    expect(messages[1].toolRounds?.[0].calls[0].status).toBe('cancelled');
+  });
+
+  it('drops malformed tool calls and still reports an assistant message with nothing left as empty', () => {
+    const raw = {
+      messages: [
+        { role: 'user', content: 'Hi' },
+        { role: 'assistant', content: '', toolRounds: [{ content: '', calls: [{ name: 'calculator' }] }] },
+      ],
+    };
+    const { conversations, skipped } = parseConversationImport(JSON.stringify(raw));
+    expect(getActiveMessages(conversations[0])).toHaveLength(1);
+    expect(skipped).toEqual([{ conversation: 'Imported chat 1', index: 1, reason: 'empty message' }]);
+  });
+});
+
+describe('conversation import of exported trees', () => {
+  const node = (id: string, parentId: string | null, content: string, childIds: string[]) => ({
+    id,
+    parentId,
+    childIds,
+    activeChildId: childIds[0] ?? null,
+    message: { role: parentId === null || content.startsWith('Q') ? 'user' : 'assistant', content },
+  });
+  const exportOf = (nodes: ReturnType<typeof node>[], extra: Record<string, unknown> = {}) => JSON.stringify({
+    title: 'Tree',
+    nodes: Object.fromEntries(nodes.map(n => [n.id, n])),
+    rootIds: ['a'],
+    activeRootId: 'a',
+    ...extra,
+  });
+
+  it('reports a node that lists an ancestor as its child instead of recursing forever', () => {
+    const { conversations, skipped } = parseConversationImport(exportOf([
+      node('a', null, 'Q1', ['b']),
+      node('b', 'a', 'A1', ['a']),
+    ]));
+    expect(getActiveMessages(conversations[0]).map(m => m.content)).toEqual(['Q1', 'A1']);
+    expect(skipped).toHaveLength(1);
+    expect(skipped[0].reason).toMatch(/more than once/);
+  });
+
+  it('keeps a child shared by two parents only under the first', () => {
+    const { conversations, skipped } = parseConversationImport(exportOf([
+      node('a', null, 'Q1', ['b', 'c']),
+      node('b', 'a', 'A1', ['d']),
+      node('c', 'a', 'A2', ['d']),
+      node('d', 'b', 'Q2', []),
+    ]));
+    const { nodes } = conversations[0];
+    expect(nodes.b.childIds).toEqual(['d']);
+    expect(nodes.c.childIds).toEqual([]);
+    expect(nodes.d.parentId).toBe('b');
+    expect(skipped).toHaveLength(1);
+  });
+
+  it('carries the host the conversation last ran on', () => {
+    const { conversations } = parseConversationImport(exportOf([node('a', null, 'Q1', [])], { hostId: 'default' }));
+    expect(conversations[0].hostId).toBe('default');
+  });
+});
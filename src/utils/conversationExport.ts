@@ -0,0 +1,320 @@
+import type { ChatMessage, Conversation, MessageNode, ToolCallRecord, ToolCallStatus, ToolRound } from '../types';
+import { createId } from './id';
+import { isRecord } from './guards';
+import { sanitizeOptions } from './modelParameters';
+import { getActiveMessages, treeFromMessages } from './messageTree';
+import type { MessageTree } from './messageTree';
+
+const EXPORT_FORMAT = 'saintpopeye-conversation';
+// v1 stored a flat `messages` array; v2 stores the full branch tree.
+const EXPORT_VERSION = 2;
+
+interface ConversationExport {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  conversations: Conversation[];
+}
+
+export interface SkippedMessage {
+  conversation: string;
+  index: number;
+  reason: string;
+}
+
+export interface ImportResult {
+  conversations: Conversation[];
+  skipped: SkippedMessage[];
+}
+
+/** A filesystem-friendly name for an exported conversation. */
+export function exportFileName(conversation: Conversation, extension: string): string {
+  const slug = conversation.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'conversation';
+  return `${slug}.${extension}`;
+}
+
+export function conversationToJson(conversation: Conversation): string {
+  const data: ConversationExport = { format: EXPORT_FORMAT, version: EXPORT_VERSION, conversations: [conversation] };
+  return JSON.stringify(data, null, 2);
+}
+
+const roleHeading = (role: ChatMessage['role']) => role.charAt(0).toUpperCase() + role.slice(1);
+
+/**
+ * Exports the active branch. Message content is already Markdown, so fenced
+ * code blocks pass through untouched.
+ */
+export function conversationToMarkdown(conversation: Conversation): string {
+  const lines: string[] = [`# ${conversation.title}`, ''];
+  lines.push(`- Model: ${conversation.model || 'unknown'}`);
+  lines.push(`- Created: ${new Date(conversation.createdAt).toLocaleString()}`);
+  lines.push(`- Updated: ${new Date(conversation.updatedAt).toLocaleString()}`);
+  lines.push('');
+
+  if (conversation.systemPrompt.trim()) {
+    lines.push('## System prompt', '');
+    lines.push(...conversation.systemPrompt.split('\n').map(line => `> ${line}`), '');
+  }
+
+  for (const message of getActiveMessages(conversation)) {
+    lines.push(`## ${roleHeading(message.role)}${message.model ? ` (${message.model})` : ''}`, '');
+    message.images?.forEach((image, index) => {
+      lines.push(`![Image ${index + 1}](data:image/jpeg;base64,${image})`, '');
+    });
+    lines.push(message.content, '');
+    if (message.interrupted) {
+      lines.push('_Generation stopped._', '');
+    }
+  }
+
+  return lines.join('\n');
+}
+
+// --- Import -----------------------------------------------------------------
+
+const ROLES: ChatMessage['role'][] = ['system', 'user', 'assistant'];
+const TOOL_CALL_STATUSES: ToolCallStatus[] = ['awaiting-approval', 'running', 'done', 'error', 'denied', 'cancelled'];
+
+const toTimestamp = (value: unknown): number | undefined => {
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    // Unix seconds (OpenAI-style exports) vs. epoch milliseconds.
+    return value < 1e12 ? value * 1000 : value;
+  }
+  if (typeof value === 'string') {
+    const parsed = Date.parse(value);
+    return Number.isNaN(parsed) ? undefined : parsed;
+  }
+  return undefined;
+};
+
+const stripDataUrl = (url: string): string | null => {
+  const match = url.match(/^data:image\/[\w.+-]+;base64,(.+)$/);
+  return match ? match[1] : null;
+};
+
+function toToolCall(raw: unknown): ToolCallRecord | null {
+  if (!isRecord(raw) || typeof raw.id !== 'string' || typeof raw.name !== 'string' || !isRecord(raw.arguments)) return null;
+  const status = TOOL_CALL_STATUSES.includes(raw.status as ToolCallStatus) ? raw.status as ToolCallStatus : 'error';
+  const call: ToolCallRecord = {
+    id: raw.id,
+    name: raw.name,
+    arguments: raw.arguments,
+    // A call still open at export time can never finish now.
+    status: status === 'awaiting-approval' || status === 'running' ? 'cancelled' : status,
+  };
+  if (typeof raw.result === 'string') call.result = raw.result;
+  return call;
+}
+
+// Rounds from our own export; malformed calls are dropped, and rounds left with none go too.
+function toToolRounds(raw: unknown): ToolRound[] {
+  if (!Array.isArray(raw)) return [];
+  return raw.flatMap(round => {
+    if (!isRecord(round) || !Array.isArray(round.calls)) return [];
+    const calls = round.calls.map(toToolCall).filter((call): call is ToolCallRecord => call !== null);
+    return calls.length > 0 ? [{ content: typeof round.content === 'string' ? round.content : '', calls }] : [];
+  });
+}
+
+/**
+ * Maps one message-like object to a ChatMessage. Understands our own shape,
+ * OpenAI chat messages (string or content-part arrays) and ChatGPT export
+ * nodes (`author.role` + `content.parts`).
+ */
+function toChatMessage(raw: unknown): ChatMessage | string {
+  if (!isRecord(raw)) return 'not an object';
+
+  const role = isRecord(raw.author) ? raw.author.role : raw.role;
+  if (typeof role !== 'string' || !ROLES.includes(role as ChatMessage['role'])) {
+    return `unsupported role ${JSON.stringify(role)}`;
+  }
+
+  let content = '';
+  const images: string[] = [];
+  const rawContent = raw.content;
+  const parts = typeof rawContent === 'string'
+    ? [rawContent]
+    : Array.isArray(rawContent)
+      ? rawContent
+      : isRecord(rawContent) && Array.isArray(rawContent.parts)
+        ? rawContent.parts
+        : null;
+  if (!parts) return 'missing content';
+
+  for (const part of parts) {
+    if (typeof part === 'string') {
+      content += part;
+    } else if (isRecord(part) && part.type === 'text' && typeof part.text === 'string') {
+      content += part.text;
+    } else if (isRecord(part) && part.type === 'image_url') {
+      const url = isRecord(part.image_url) ? part.image_url.url : part.image_url;
+      const data = typeof url === 'string' ? stripDataUrl(url) : null;
+      if (data) images.push(data);
+    }
+  }
+  if (Array.isArray(raw.images)) {
+    images.push(...raw.images.filter((img): img is string => typeof img === 'string'));
+  }
+  // A reply stopped during the tool loop has no final text, only its tool rounds.
+  const toolRounds = role === 'assistant' ? toToolRounds(raw.toolRounds) : [];
+  if (!content && images.length === 0 && toolRounds.length === 0) return 'empty message';
+
+  const message: ChatMessage = { role: role as ChatMessage['role'], content };
+  if (images.length > 0) message.images = images;
+  if (toolRounds.length > 0) message.toolRounds = toolRounds;
+  if (raw.interrupted === true) message.interrupted = true;
+  if (typeof raw.model === 'string' && raw.model) message.model = raw.model;
+  if (isRecord(raw.stats)) {
+    const stats = Object.fromEntries(Object.entries(raw.stats).filter(([, value]) => typeof value === 'number'));
+    if (Object.keys(stats).length > 0) message.stats = stats;
+  }
+  const createdAt = toTimestamp(raw.createdAt ?? raw.create_time ?? raw.timestamp);
+  if (createdAt !== undefined) message.createdAt = createdAt;
+  return message;
+}
+
+/** ChatGPT exports store messages as a parent/child `mapping`; walk from the current node back to the root. */
+function messagesFromMapping(data: Record<string, unknown>): unknown[] {
+  const mapping = data.mapping as Record<string, unknown>;
+  const ordered: unknown[] = [];
+  let nodeId = typeof data.current_node === 'string' ? data.current_node : undefined;
+  if (!nodeId) {
+    // No pointer to the active leaf: fall back to insertion order.
+    return Object.values(mapping).map(node => (isRecord(node) ? node.message : null)).filter(Boolean);
+  }
+  while (nodeId && isRecord(mapping[nodeId])) {
+    const node = mapping[nodeId] as Record<string, unknown>;
+    if (node.message) ordered.unshift(node.message);
+    nodeId = typeof node.parent === 'string' ? node.parent : undefined;
+  }
+  return ordered;
+}
+
+/**
+ * Rebuilds a tree exported by this app. Nodes whose message can't be mapped,
+ * and nodes reached a second time (a cycle, or a child listed by two
+ * parents), are reported and dropped along with their replies.
+ */
+function treeFromExport(raw: Record<string, unknown>, title: string, skipped: SkippedMessage[]): MessageTree {
+  const rawNodes = isRecord(raw.nodes) ? raw.nodes : {};
+  const rootIds = Array.isArray(raw.rootIds) ? raw.rootIds.filter((id): id is string => typeof id === 'string') : [];
+  const nodes: Record<string, MessageNode> = {};
+  const visited = new Set<string>();
+  let position = 0;
+
+  const visit = (id: string, parentId: string | null): boolean => {
+    if (visited.has(id)) {
+      skipped.push({ conversation: title, index: position++, reason: `node ${JSON.stringify(id)} appears more than once in the tree` });
+      return false;
+    }
+    visited.add(id);
+    const rawNode = rawNodes[id];
+    const message = isRecord(rawNode) ? toChatMessage(rawNode.message) : 'not an object';
+    const index = position++;
+    if (typeof message === 'string' || !isRecord(rawNode)) {
+      skipped.push({ conversation: title, index, reason: typeof message === 'string' ? message : 'invalid node' });
+      return false;
+    }
+    const rawChildIds = Array.isArray(rawNode.childIds) ? rawNode.childIds : [];
+    const node: MessageNode = { id, parentId, childIds: [], activeChildId: null, message };
+    nodes[id] = node;
+    node.childIds = rawChildIds.filter((childId): childId is string => typeof childId === 'string' && visit(childId, id));
+    node.activeChildId = node.childIds.includes(rawNode.activeChildId as string)
+      ? rawNode.activeChildId as string
+      : node.childIds[node.childIds.length - 1] ?? null;
+    return true;
+  };
+
+  const keptRootIds = rootIds.filter(id => visit(id, null));
+  const activeRootId = keptRootIds.includes(raw.activeRootId as string)
+    ? raw.activeRootId as string
+    : keptRootIds[keptRootIds.length - 1] ?? null;
+  return { nodes, rootIds: keptRootIds, activeRootId };
+}
+
+function toConversation(raw: unknown, position: number, skipped: SkippedMessage[]): Conversation | null {
+  const record = isRecord(raw) ? raw : {};
+  const title = typeof record.title === 'string' && record.title.trim() ? record.title.trim() : `Imported chat ${position + 1}`;
+  let systemPrompt = typeof record.systemPrompt === 'string' ? record.systemPrompt : '';
+
+  let tree: MessageTree;
+  if (isRecord(record.nodes)) {
+    tree = treeFromExport(record, title, skipped);
+  } else {
+    const rawMessages = Array.isArray(raw)
+      ? raw
+      : Array.isArray(record.messages)
+        ? record.messages
+        : isRecord(record.mapping)
+          ? messagesFromMapping(record)
+          : null;
+    if (!rawMessages) return null;
+
+    const messages: ChatMessage[] = [];
+    rawMessages.forEach((rawMessage, index) => {
+      const result = toChatMessage(rawMessage);
+      if (typeof result === 'string') {
+        // ChatGPT exports contain empty system/tool scaffolding nodes; those aren't worth reporting.
+        if (result !== 'empty message' || !record.mapping) {
+          skipped.push({ conversation: title, index, reason: result });
+        }
+        return;
+      }
+      // A leading system message becomes the conversation's system prompt.
+      if (result.role === 'system' && messages.length === 0 && !systemPrompt) {
+        systemPrompt = result.content;
+        return;
+      }
+      messages.push(result);
+    });
+    tree = treeFromMessages(messages);
+  }
+
+  const messages = getActiveMessages(tree);
+  const now = Date.now();
+  const createdAt = toTimestamp(record.createdAt ?? record.create_time) ?? messages[0]?.createdAt ?? now;
+  const updatedAt = toTimestamp(record.updatedAt ?? record.update_time) ?? messages[messages.length - 1]?.createdAt ?? createdAt;
+  return {
+    id: createId(),
+    title,
+    model: typeof record.model === 'string' ? record.model : '',
+    createdAt,
+    updatedAt,
+    ...tree,
+    systemPrompt,
+    options: sanitizeOptions(record.options),
+    ...(typeof record.hostId === 'string' && record.hostId ? { hostId: record.hostId } : {}),
+  };
+}
+
+/**
+ * Parses an exported conversation file. Accepts our own JSON export, a list of
+ * conversations, a single `{ title?, model?, messages }` object (or a pre-branching v1 export), a bare array
+ * of chat messages, or a ChatGPT `conversations.json` export.
+ */
+export function parseConversationImport(json: string): ImportResult {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('File is not valid JSON.');
+  }
+
+  let rawConversations: unknown[];
+  if (isRecord(data) && data.format === EXPORT_FORMAT && Array.isArray(data.conversations)) {
+    rawConversations = data.conversations;
+  } else if (Array.isArray(data) && data.length > 0 && data.every(item => isRecord(item) && ('messages' in item || 'mapping' in item || 'nodes' in item))) {
+    rawConversations = data;
+  } else {
+    rawConversations = [data];
+  }
+
+  const skipped: SkippedMessage[] = [];
+  const conversations = rawConversations
+    .map((raw, index) => toConversation(raw, index, skipped))
+    .filter((c): c is Conversation => c !== null);
+
+  if (conversations.length === 0) {
+    throw new Error('No conversations found. Expected a "messages" array.');
+  }
+  return { conversations, skipped };
+}
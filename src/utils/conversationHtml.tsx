@@ -0,0 +1,82 @@
+import React from 'react';
+import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
+import { atomDark } from 'react-syntax-highlighter/dist/esm/styles/prism';
+import type { Conversation } from '../types';
+import { splitMessageParts } from './messageParts';
+import { getActiveMessages } from './messageTree';
+
+// Inline styles only, so the exported file renders the same with no network access.
+const PAGE_CSS = `
+  body { margin: 0; background: #121212; color: #e5e7eb; font-family: system-ui, -apple-system, "Segoe UI", sans-serif; }
+  main { max-width: 48rem; margin: 0 auto; padding: 2rem 1rem; }
+  h1 { font-size: 1.5rem; margin: 0 0 0.25rem; }
+  .meta { color: #a9a9a9; font-size: 0.8rem; margin-bottom: 2rem; }
+  .message { margin: 1rem 0; padding: 0.75rem 1rem; border-radius: 0.5rem; background: #2d2d2d; }
+  .message.user { background: #00acc1; color: #fff; margin-left: 4rem; }
+  .message.system { background: transparent; border: 1px solid #3c3c3c; color: #a9a9a9; font-size: 0.85rem; }
+  .role { font-size: 0.7rem; font-weight: 600; text-transform: uppercase; letter-spacing: 0.05em; opacity: 0.7; margin-bottom: 0.25rem; }
+  .text { white-space: pre-wrap; margin: 0.5rem 0; }
+  .note { font-size: 0.75rem; font-style: italic; opacity: 0.7; }
+  img { max-width: 100%; max-height: 24rem; border-radius: 0.5rem; }
+`;
+
+const ExportedConversation: React.FC<{ conversation: Conversation }> = ({ conversation }) => (
+  <main>
+    <h1>{conversation.title}</h1>
+    <p className="meta">
+      {conversation.model || 'unknown model'} · {new Date(conversation.createdAt).toLocaleString()}
+    </p>
+    {conversation.systemPrompt.trim() && (
+      <div className="message system">
+        <div className="role">System prompt</div>
+        <p className="text">{conversation.systemPrompt}</p>
+      </div>
+    )}
+    {getActiveMessages(conversation).map((message, index) => (
+      <div key={index} className={`message ${message.role}`}>
+        <div className="role">{message.role}{message.model ? ` · ${message.model}` : ''}</div>
+        {message.images?.map((image, imageIndex) => (
+          <img key={imageIndex} src={`data:image/jpeg;base64,${image}`} alt={`Image ${imageIndex + 1}`} />
+        ))}
+        {splitMessageParts(message.content).map((part, partIndex) =>
+          part.type === 'code' ? (
+            <SyntaxHighlighter
+              key={partIndex}
+              language={part.language}
+              style={atomDark}
+              customStyle={{ borderRadius: '0.375rem', fontSize: '0.85rem' }}
+            >
+              {part.code}
+            </SyntaxHighlighter>
+          ) : (
+            <p key={partIndex} className="text">{part.text}</p>
+          )
+        )}
+        {message.interrupted && <p className="note">Generation stopped.</p>}
+      </div>
+    ))}
+  </main>
+);
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+/** Renders a conversation to a single self-contained HTML document. */
+export async function conversationToHtml(conversation: Conversation): Promise<string> {
+  // Loaded on demand; the server renderer is only needed for exports.
+  const { renderToStaticMarkup } = await import('react-dom/server');
+  const body = renderToStaticMarkup(<ExportedConversation conversation={conversation} />);
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8" />
+<meta name="viewport" content="width=device-width, initial-scale=1.0" />
+<title>${escapeHtml(conversation.title)}</title>
+<style>${PAGE_CSS}</style>
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+}
@@ -0,0 +1,82 @@
+import {
+  AuthenticationError,
+  CorsError,
+  HttpError,
+  ImagesNotSupportedError,
+  MixedContentError,
+  ModelNotFoundError,
+  NetworkError,
+  OllamaError,
+  TlsError,
+} from '../services/errors';
+
+export interface ErrorHelp {
+  title: string;
+  /** What the user can do about it. */
+  fix: string;
+}
+
+/** A user-facing title and fix for an error thrown by OllamaService. */
+export function getErrorHelp(err: unknown): ErrorHelp {
+  if (err instanceof MixedContentError) {
+    return {
+      title: 'Blocked as mixed content',
+      fix: 'Browsers block HTTPS pages from calling plain-HTTP hosts. Put Ollama behind HTTPS (for example with setup_ollama_proxy.sh), or open this app over HTTP.',
+    };
+  }
+  if (err instanceof CorsError) {
+    return {
+      title: 'Blocked by CORS',
+      fix: "Ollama is running but doesn't allow this origin. Set OLLAMA_ORIGINS to include this page's origin and restart Ollama.",
+    };
+  }
+  if (err instanceof TlsError) {
+    return {
+      title: 'Certificate not trusted',
+      fix: `Open ${err.host} in a new tab and accept its certificate, or install a trusted one. If that page doesn't load either, the host is down.`,
+    };
+  }
+  if (err instanceof NetworkError) {
+    return {
+      title: 'Ollama is unreachable',
+      fix: `Check that Ollama is running and that ${err.host} is the right address. Remote hosts need OLLAMA_HOST=0.0.0.0 and an open port 11434.`,
+    };
+  }
+  if (err instanceof AuthenticationError) {
+    return {
+      title: err.status === 401 ? 'Credentials required' : 'Access denied',
+      fix: 'Enter the basic auth login, bearer token or header that the proxy in front of this host expects.',
+    };
+  }
+  if (err instanceof ModelNotFoundError) {
+    return {
+      title: `Model "${err.model}" not found`,
+      fix: `Pull it from the Model Management section, or run "ollama pull ${err.model}".`,
+    };
+  }
+  if (err instanceof ImagesNotSupportedError) {
+    return {
+      title: `"${err.model}" can't read images`,
+      fix: 'Remove the image or switch to a vision model such as llava or llama3.2-vision.',
+    };
+  }
+  if (err instanceof HttpError) {
+    return {
+      title: `Ollama returned HTTP ${err.status}`,
+      fix: err.body || 'Check the Ollama server log for details.',
+    };
+  }
+  if (err instanceof OllamaError) {
+    return { title: 'Ollama reported an error', fix: err.message };
+  }
+  return {
+    title: 'Something went wrong',
+    fix: err instanceof Error ? err.message : 'An unknown error occurred.',
+  };
+}
+
+/** One-line form of getErrorHelp for places that only show text, like a chat bubble. */
+export function describeError(err: unknown): string {
+  const { title, fix } = getErrorHelp(err);
+  return `${title}. ${fix}`;
+}
@@ -0,0 +1,21 @@
+import type { HostAuth } from '../types';
+
+export const NO_AUTH: HostAuth = { type: 'none' };
+
+// btoa() only accepts Latin-1, so encode as UTF-8 first to allow any username or password.
+const toBase64 = (text: string): string =>
+  btoa(Array.from(new TextEncoder().encode(text), byte => String.fromCharCode(byte)).join(''));
+
+/** The headers to send with every request to a host using `auth`. */
+export function authHeaders(auth: HostAuth | undefined): Record<string, string> {
+  switch (auth?.type) {
+    case 'basic':
+      return { Authorization: `Basic ${toBase64(`${auth.username}:${auth.password}`)}` };
+    case 'bearer':
+      return auth.token ? { Authorization: `Bearer ${auth.token}` } : {};
+    case 'header':
+      return auth.name.trim() ? { [auth.name.trim()]: auth.value } : {};
+    default:
+      return {};
+  }
+}
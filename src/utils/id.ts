@@ -0,0 +1,8 @@
+// crypto.randomUUID() is only available in secure contexts, and this app is
+// often served over plain HTTP on the LAN, so fall back to a timestamp id.
+export function createId(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function' && globalThis.isSecureContext) {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
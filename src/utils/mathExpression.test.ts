@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { evaluateExpression } from './mathExpression';
+
+describe('evaluateExpression', () => {
+  it.each([
+    ['1 + 2 * 3', 7],
+    ['(1 + 2) * 3', 9],
+    ['-2^2', -4],
+    ['(-2)^2', 4],
+    ['2^3^2', 512],
+    ['2**3**2', 512],
+    ['2^-1', 0.5],
+    ['10 % 4 * 3', 6],
+    ['7 - -3', 10],
+    ['1.5e3 + .5', 1500.5],
+    ['sqrt(16) + abs(-2)', 6],
+    ['log(1000) + ln(e)', 4],
+    ['round(PI * 100)', 314],
+  ])('evaluates %s', (expression, expected) => {
+    expect(evaluateExpression(expression)).toBeCloseTo(expected);
+  });
+
+  it.each([
+    ['1 + 2 3', 'Unexpected "3".'],
+    ['(1 + 2', 'Expected ")".'],
+    ['2 *', 'The expression ends too early.'],
+    ['2 & 3', 'Unexpected "&" at position 3.'],
+    ['foo(1)', 'Unknown name or symbol "foo".'],
+  ])('rejects %s', (expression, message) => {
+    expect(() => evaluateExpression(expression)).toThrow(message);
+  });
+
+  // Names are lower-cased, so these are the Object.prototype members a lookup could reach.
+  it.each(['constructor', 'constructor(1)', '__proto__', '__proto__ + 1'])(
+    'does not treat the Object.prototype member %s as a name',
+    (expression) => {
+      expect(() => evaluateExpression(expression)).toThrow(/^Unknown name or symbol/);
+    }
+  );
+});
@@ -0,0 +1,122 @@
+const FUNCTIONS: Record<string, (x: number) => number> = {
+  sqrt: Math.sqrt,
+  abs: Math.abs,
+  round: Math.round,
+  floor: Math.floor,
+  ceil: Math.ceil,
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+  asin: Math.asin,
+  acos: Math.acos,
+  atan: Math.atan,
+  ln: Math.log,
+  log: Math.log10,
+  exp: Math.exp,
+};
+
+const CONSTANTS: Record<string, number> = {
+  pi: Math.PI,
+  e: Math.E,
+};
+
+// `in` would also find Object.prototype members such as "constructor" and "valueOf".
+const has = (table: object, name: string): boolean => Object.prototype.hasOwnProperty.call(table, name);
+
+const TOKEN = /\s*(\d+(?:\.\d*)?(?:e[+-]?\d+)?|\.\d+(?:e[+-]?\d+)?|[a-z_]+|\*\*|[-+*/%^(),])/giy;
+
+const tokenize = (expression: string): string[] => {
+  const tokens: string[] = [];
+  TOKEN.lastIndex = 0;
+  while (TOKEN.lastIndex < expression.length) {
+    const start = TOKEN.lastIndex;
+    const match = TOKEN.exec(expression);
+    if (!match) {
+      const rest = expression.slice(start).trimStart();
+      if (!rest) break;
+      throw new Error(`Unexpected "${rest[0]}" at position ${expression.length - rest.length + 1}.`);
+    }
+    tokens.push(match[1] === '**' ? '^' : match[1].toLowerCase());
+  }
+  return tokens;
+};
+
+/**
+ * Evaluates an arithmetic expression without `eval`: + - * / % ^ (or **),
+ * parentheses, the constants pi and e, and functions such as sqrt, sin and log
+ * (base 10; ln is the natural log). Trigonometry uses radians.
+ */
+export function evaluateExpression(expression: string): number {
+  const tokens = tokenize(expression);
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const next = () => tokens[position++];
+  const expect = (token: string) => {
+    if (next() !== token) throw new Error(`Expected "${token}".`);
+  };
+
+  // Lowest precedence first: sum -> product -> unary -> power -> atom.
+  const parseSum = (): number => {
+    let value = parseProduct();
+    while (peek() === '+' || peek() === '-') {
+      value = next() === '+' ? value + parseProduct() : value - parseProduct();
+    }
+    return value;
+  };
+
+  const parseProduct = (): number => {
+    let value = parseUnary();
+    while (peek() === '*' || peek() === '/' || peek() === '%') {
+      const operator = next();
+      const right = parseUnary();
+      value = operator === '*' ? value * right : operator === '/' ? value / right : value % right;
+    }
+    return value;
+  };
+
+  const parseUnary = (): number => {
+    if (peek() === '-') {
+      next();
+      return -parseUnary();
+    }
+    if (peek() === '+') {
+      next();
+      return parseUnary();
+    }
+    return parsePower();
+  };
+
+  // Right-associative, and binds tighter than unary minus on its left: -2^2 = -4.
+  const parsePower = (): number => {
+    const base = parseAtom();
+    if (peek() === '^') {
+      next();
+      return base ** parseUnary();
+    }
+    return base;
+  };
+
+  const parseAtom = (): number => {
+    const token = next();
+    if (token === undefined) throw new Error('The expression ends too early.');
+    if (token === '(') {
+      const value = parseSum();
+      expect(')');
+      return value;
+    }
+    if (/^[\d.]/.test(token)) return Number(token);
+    if (has(FUNCTIONS, token)) {
+      expect('(');
+      const value = parseSum();
+      expect(')');
+      return FUNCTIONS[token](value);
+    }
+    if (has(CONSTANTS, token)) return CONSTANTS[token];
+    throw new Error(`Unknown name or symbol "${token}".`);
+  };
+
+  const result = parseSum();
+  if (position < tokens.length) throw new Error(`Unexpected "${tokens[position]}".`);
+  return result;
+}
@@ -0,0 +1,17 @@
+export type MessagePart =
+  | { type: 'text'; text: string }
+  | { type: 'code'; language: string; code: string };
+
+/** Splits Markdown-ish message content into plain text and fenced code blocks. */
+export function splitMessageParts(content: string): MessagePart[] {
+  const parts: MessagePart[] = [];
+  for (const part of content.split(/(```[\s\S]*?```)/g)) {
+    const codeBlockMatch = part.match(/^```(\w*)\n?([\s\S]*?)```$/);
+    if (codeBlockMatch) {
+      parts.push({ type: 'code', language: codeBlockMatch[1] || 'text', code: codeBlockMatch[2].trim() });
+    } else if (part.trim()) {
+      parts.push({ type: 'text', text: part });
+    }
+  }
+  return parts;
+}
@@ -0,0 +1,85 @@
+import type { ChatMessage, Conversation, MessageNode, ThreadMessage } from '../types';
+import { createId } from './id';
+
+export type MessageTree = Pick<Conversation, 'nodes' | 'rootIds' | 'activeRootId'>;
+
+export const emptyTree = (): MessageTree => ({ nodes: {}, rootIds: [], activeRootId: null });
+
+/** Follows the active branch from the root down to the current leaf. */
+export function getActivePath(tree: MessageTree): MessageNode[] {
+  const path: MessageNode[] = [];
+  let nodeId = tree.activeRootId;
+  while (nodeId && tree.nodes[nodeId]) {
+    const node = tree.nodes[nodeId];
+    path.push(node);
+    nodeId = node.activeChildId;
+  }
+  return path;
+}
+
+/** The messages on the active branch, i.e. what gets sent to the model. */
+export const getActiveMessages = (tree: MessageTree): ChatMessage[] =>
+  getActivePath(tree).map(node => node.message);
+
+export const getSiblingIds = (tree: MessageTree, nodeId: string): string[] => {
+  const parentId = tree.nodes[nodeId]?.parentId;
+  return parentId ? tree.nodes[parentId]?.childIds ?? [] : tree.rootIds;
+};
+
+export const getActiveThread = (tree: MessageTree): ThreadMessage[] =>
+  getActivePath(tree).map(node => ({
+    id: node.id,
+    parentId: node.parentId,
+    message: node.message,
+    siblingIds: getSiblingIds(tree, node.id),
+  }));
+
+/** Adds `message` as the newest child of `parentId` (or as a new root) and makes it active. */
+export function appendMessage<T extends MessageTree>(tree: T, parentId: string | null, message: ChatMessage, id: string = createId()): T {
+  const node: MessageNode = { id, parentId, childIds: [], activeChildId: null, message };
+  const nodes = { ...tree.nodes, [id]: node };
+  if (parentId === null) {
+    return { ...tree, nodes, rootIds: [...tree.rootIds, id], activeRootId: id };
+  }
+  const parent = tree.nodes[parentId];
+  nodes[parentId] = { ...parent, childIds: [...parent.childIds, id], activeChildId: id };
+  return { ...tree, nodes };
+}
+
+export function updateNodeMessage<T extends MessageTree>(tree: T, nodeId: string, updater: (message: ChatMessage) => ChatMessage): T {
+  const node = tree.nodes[nodeId];
+  if (!node) return tree;
+  return { ...tree, nodes: { ...tree.nodes, [nodeId]: { ...node, message: updater(node.message) } } };
+}
+
+/** Makes `nodeId` and all of its ancestors the active branch. */
+export function selectBranch<T extends MessageTree>(tree: T, nodeId: string): T {
+  if (!tree.nodes[nodeId]) return tree;
+  const nodes = { ...tree.nodes };
+  let childId = nodeId;
+  let parentId = nodes[nodeId].parentId;
+  while (parentId) {
+    nodes[parentId] = { ...nodes[parentId], activeChildId: childId };
+    childId = parentId;
+    parentId = nodes[parentId].parentId;
+  }
+  return { ...tree, nodes, activeRootId: childId };
+}
+
+/** Builds a single-branch tree from a flat message list. */
+export function treeFromMessages(messages: ChatMessage[]): MessageTree {
+  return messages.reduce<MessageTree>((tree, message) => {
+    const path = getActivePath(tree);
+    return appendMessage(tree, path.length > 0 ? path[path.length - 1].id : null, message);
+  }, emptyTree());
+}
+
+/**
+ * Conversations saved before branching existed store a flat `messages` array.
+ * Converts those to a tree; anything already in tree form is returned as-is.
+ */
+export function migrateConversation(raw: Conversation & { messages?: ChatMessage[] }): Conversation {
+  if (raw.nodes) return raw;
+  const { messages = [], ...rest } = raw;
+  return { ...rest, ...treeFromMessages(messages) };
+}
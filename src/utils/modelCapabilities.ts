@@ -0,0 +1,39 @@
+import type { ModelCapability, ModelFeatures, OllamaModelInfo } from '../types';
+
+const KNOWN_CAPABILITIES: ModelCapability[] = ['vision', 'tools', 'thinking', 'embedding'];
+
+// Model families whose GGUF carries a vision projector, for servers that predate `capabilities`.
+const VISION_FAMILIES = ['clip', 'mllama'];
+
+const contextLengthOf = (modelInfo: Record<string, unknown> = {}): number | undefined => {
+  const key = Object.keys(modelInfo).find(k => k.endsWith('.context_length'));
+  const value = key ? modelInfo[key] : undefined;
+  return typeof value === 'number' && value > 0 ? value : undefined;
+};
+
+/**
+ * Reads capabilities and context length from /api/show. Ollama 0.6.4 and later
+ * list capabilities explicitly; for older servers they are guessed from the
+ * model families and the chat template.
+ */
+export function getModelFeatures(info: OllamaModelInfo): ModelFeatures {
+  const contextLength = contextLengthOf(info.model_info);
+  if (info.capabilities) {
+    return {
+      capabilities: KNOWN_CAPABILITIES.filter(c => info.capabilities!.includes(c)),
+      contextLength,
+    };
+  }
+
+  const families = info.details?.families ?? [];
+  const capabilities: ModelCapability[] = [];
+  if (families.some(f => VISION_FAMILIES.includes(f)) || Object.keys(info.model_info ?? {}).some(k => k.includes('.vision.'))) {
+    capabilities.push('vision');
+  }
+  if (info.template.includes('.Tools')) capabilities.push('tools');
+  if (info.template.includes('.Think')) capabilities.push('thinking');
+  return { capabilities, contextLength };
+}
+
+export const hasCapability = (features: ModelFeatures | null | undefined, capability: ModelCapability): boolean =>
+  !!features?.capabilities.includes(capability);
@@ -0,0 +1,74 @@
+import catalogJson from '../data/modelCatalog.json';
+import type { CatalogModel, CatalogTag, ModelCapability, OllamaModel } from '../types';
+import { isRecord } from './guards';
+
+const CAPABILITIES: ModelCapability[] = ['vision', 'tools', 'thinking', 'embedding'];
+
+// hf.co/{user}/{repo}[:{quantization}], with or without https:// and the long domain.
+const HF_REFERENCE = /^(?:https?:\/\/)?(?:hf\.co|huggingface\.co)\/([\w.-]+)\/([\w.-]+)(?::([\w.-]+))?\/?$/i;
+
+const toTag = (value: unknown): CatalogTag[] => {
+  if (!isRecord(value) || typeof value.tag !== 'string' || !value.tag.trim()) return [];
+  return [{
+    tag: value.tag.trim(),
+    parameters: typeof value.parameters === 'string' ? value.parameters : undefined,
+    quantization: typeof value.quantization === 'string' ? value.quantization : undefined,
+    sizeGB: typeof value.sizeGB === 'number' && value.sizeGB > 0 ? value.sizeGB : undefined,
+  }];
+};
+
+/**
+ * Validates the catalog file. The file is meant to be extended by hand, so a
+ * broken entry is skipped with a warning instead of breaking the browser.
+ */
+export function loadCatalog(data: unknown): CatalogModel[] {
+  const entries = isRecord(data) && Array.isArray(data.models) ? data.models : [];
+  return entries.flatMap((entry, index): CatalogModel[] => {
+    if (!isRecord(entry) || typeof entry.name !== 'string' || !entry.name.trim() || !Array.isArray(entry.tags)) {
+      console.warn(`Skipping model catalog entry ${index}: it needs a name and a tags array.`);
+      return [];
+    }
+    const capabilities = Array.isArray(entry.capabilities)
+      ? entry.capabilities.filter((c): c is ModelCapability => CAPABILITIES.includes(c as ModelCapability))
+      : [];
+    return [{
+      name: entry.name.trim(),
+      family: typeof entry.family === 'string' ? entry.family : '',
+      description: typeof entry.description === 'string' ? entry.description : '',
+      capabilities,
+      latest: typeof entry.latest === 'string' ? entry.latest : undefined,
+      tags: entry.tags.flatMap(toTag),
+    }];
+  });
+}
+
+export const MODEL_CATALOG: CatalogModel[] = loadCatalog(catalogJson);
+
+/** Normalizes a Hugging Face GGUF reference to the `hf.co/...` form Ollama pulls, or returns null. */
+export function parseHuggingFaceReference(input: string): string | null {
+  const match = input.trim().match(HF_REFERENCE);
+  if (!match) return null;
+  const [, user, repo, quantization] = match;
+  return `hf.co/${user}/${repo}${quantization ? `:${quantization}` : ''}`;
+}
+
+/** The catalog entry for a model name, with or without a tag. */
+export function findCatalogModel(name: string, catalog = MODEL_CATALOG): CatalogModel | undefined {
+  const base = name.trim().toLowerCase().split(':')[0];
+  return catalog.find(model => model.name.toLowerCase() === base);
+}
+
+export function searchCatalog(query: string, capability: ModelCapability | '', catalog = MODEL_CATALOG): CatalogModel[] {
+  const terms = query.trim().toLowerCase().split(/\s+/).filter(Boolean);
+  return catalog.filter(model => {
+    if (capability && !model.capabilities.includes(capability)) return false;
+    const haystack = `${model.name} ${model.family} ${model.description} ${model.capabilities.join(' ')}`.toLowerCase();
+    return terms.every(term => haystack.includes(term));
+  });
+}
+
+/** Whether `name:tag` is installed, counting `name:latest` when it points at that tag. */
+export function isTagInstalled(model: CatalogModel, tag: string, installed: OllamaModel[]): boolean {
+  const names = new Set(installed.map(m => m.name));
+  return names.has(`${model.name}:${tag}`) || (model.latest === tag && names.has(`${model.name}:latest`));
+}
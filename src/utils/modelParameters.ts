@@ -0,0 +1,75 @@
+import type { OllamaOptions } from '../types';
+import { isRecord } from './guards';
+
+export const NUMERIC_OPTION_KEYS = ['temperature', 'top_k', 'top_p', 'num_ctx', 'num_predict', 'repeat_penalty', 'seed'] as const;
+
+type NumericOptionKey = typeof NUMERIC_OPTION_KEYS[number];
+
+const isNumericKey = (key: string): key is NumericOptionKey =>
+  (NUMERIC_OPTION_KEYS as readonly string[]).includes(key);
+
+/**
+ * Parses the `parameters` string returned by /api/show, e.g.
+ *
+ *   num_ctx                        8192
+ *   stop                           "<|eot_id|>"
+ *   temperature                    0.6
+ *
+ * Only the keys exposed in the parameters panel are kept; everything else is ignored.
+ */
+export function parseModelParameters(parameters: string | undefined): OllamaOptions {
+  const options: OllamaOptions = {};
+  if (!parameters) return options;
+
+  for (const line of parameters.split('\n')) {
+    const match = line.trim().match(/^(\S+)\s+(.+)$/);
+    if (!match) continue;
+    const [, key, rawValue] = match;
+    const value = rawValue.trim();
+
+    if (key === 'stop') {
+      const stop = value.startsWith('"') && value.endsWith('"') ? value.slice(1, -1) : value;
+      options.stop = [...(options.stop ?? []), stop];
+    } else if (isNumericKey(key)) {
+      const num = Number(value);
+      if (!Number.isNaN(num)) {
+        options[key] = num;
+      }
+    }
+  }
+
+  return options;
+}
+
+/** Drops unset values so only explicit overrides are sent to Ollama. */
+export function compactOptions(options: OllamaOptions): OllamaOptions | undefined {
+  const result: OllamaOptions = {};
+  for (const key of NUMERIC_OPTION_KEYS) {
+    const value = options[key];
+    if (typeof value === 'number' && !Number.isNaN(value)) {
+      result[key] = value;
+    }
+  }
+  const stop = options.stop?.filter(s => s !== '');
+  if (stop && stop.length > 0) {
+    result.stop = stop;
+  }
+  return Object.keys(result).length > 0 ? result : undefined;
+}
+
+/** Keeps only well-typed option values from untrusted JSON (imports, shared profiles). */
+export function sanitizeOptions(value: unknown): OllamaOptions {
+  if (!isRecord(value)) return {};
+  const record = value;
+  const options: OllamaOptions = {};
+  for (const key of NUMERIC_OPTION_KEYS) {
+    const num = record[key];
+    if (typeof num === 'number' && !Number.isNaN(num)) {
+      options[key] = num;
+    }
+  }
+  if (Array.isArray(record.stop) && record.stop.every(s => typeof s === 'string')) {
+    options.stop = record.stop as string[];
+  }
+  return options;
+}
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { lastUsedByModel } from './modelUsage';
+import { treeFromMessages } from './messageTree';
+import type { Conversation } from '../types';
+
+const conversation = (hostId: string | undefined, model: string, createdAt: number): Conversation => ({
+  id: `${hostId}-${model}-${createdAt}`,
+  title: 'Chat',
+  model,
+  createdAt,
+  updatedAt: createdAt,
+  ...treeFromMessages([
+    { role: 'user', content: 'Hi', createdAt },
+    { role: 'assistant', content: 'Hello', model, createdAt },
+  ]),
+  systemPrompt: '',
+  options: {},
+  ...(hostId ? { hostId } : {}),
+});
+
+describe('lastUsedByModel', () => {
+  const conversations = [
+    conversation('a', 'llama3', 100),
+    conversation('a', 'llama3', 300),
+    conversation('b', 'qwen', 200),
+    conversation(undefined, 'mistral', 50),
+  ];
+
+  it('only counts conversations run on the given host', () => {
+    expect(lastUsedByModel(conversations, 'a')).toEqual(new Map([['llama3', 300], ['mistral', 50]]));
+    expect(lastUsedByModel(conversations, 'b')).toEqual(new Map([['qwen', 200], ['mistral', 50]]));
+  });
+
+  it('counts conversations without a recorded host for every host', () => {
+    expect(lastUsedByModel(conversations, 'c')).toEqual(new Map([['mistral', 50]]));
+  });
+});
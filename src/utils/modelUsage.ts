@@ -0,0 +1,22 @@
+import type { Conversation } from '../types';
+
+/**
+ * When each model last wrote a reply on the host `hostId`, in epoch ms, from
+ * the saved conversations. Every branch counts, not just the active one.
+ * Models that never replied there are absent from the map.
+ */
+export function lastUsedByModel(conversations: Conversation[], hostId: string): Map<string, number> {
+  const lastUsed = new Map<string, number>();
+  for (const conversation of conversations) {
+    // Conversations from before hosts were recorded could have run anywhere, so they count for every host.
+    if (conversation.hostId && conversation.hostId !== hostId) continue;
+    for (const { message } of Object.values(conversation.nodes)) {
+      if (message.role !== 'assistant' || !message.model) continue;
+      const usedAt = message.createdAt ?? conversation.updatedAt;
+      if (usedAt > (lastUsed.get(message.model) ?? 0)) {
+        lastUsed.set(message.model, usedAt);
+      }
+    }
+  }
+  return lastUsed;
+}
@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import { highlightModelfile, parseModelfile, toCreateRequest, withBaseModel } from './modelfile';
+
+const DIGEST = 'ab'.repeat(32);
+
+const MODELFILE = `# A pirate
+FROM llama3.2:latest
+SYSTEM """You are a pirate.
+Answer in pirate speak."""
+PARAMETER temperature 0.7
+PARAMETER stop "<|eot_id|>"
+PARAMETER stop <|start_header_id|>
+PARAMETER num_ctx 8192
+MESSAGE user """Ahoy?"""
+MESSAGE assistant Arr, matey.
+LICENSE "MIT"
+`;
+
+describe('parseModelfile', () => {
+  it('reads bare, quoted and multi-line triple-quoted values', () => {
+    const { instructions, errors } = parseModelfile(MODELFILE);
+    expect(errors).toEqual([]);
+    expect(instructions.map(({ name, value, line }) => [name, value, line])).toEqual([
+      ['FROM', 'llama3.2:latest', 2],
+      ['SYSTEM', 'You are a pirate.\nAnswer in pirate speak.', 3],
+      ['PARAMETER', 'temperature 0.7', 5],
+      ['PARAMETER', 'stop "<|eot_id|>"', 6],
+      ['PARAMETER', 'stop <|start_header_id|>', 7],
+      ['PARAMETER', 'num_ctx 8192', 8],
+      ['MESSAGE', 'user Ahoy?', 9],
+      ['MESSAGE', 'assistant Arr, matey.', 10],
+      ['LICENSE', 'MIT', 11],
+    ]);
+  });
+
+  it('reports unknown instructions, an unclosed triple quote and a missing FROM', () => {
+    const { errors } = parseModelfile('SYSTM hello\nSYSTEM """never closed\nmore');
+    expect(errors).toEqual([
+      'Line 1: unknown instruction "SYSTM".',
+      'Line 2: SYSTEM opens """ but never closes it.',
+      'A Modelfile needs a FROM line.',
+    ]);
+  });
+
+  it('only accepts adapters that are already blobs on the server', () => {
+    expect(parseModelfile(`FROM llama3\nADAPTER /root/.ollama/models/blobs/sha256-${DIGEST}`).errors).toEqual([]);
+    expect(parseModelfile('FROM llama3\nADAPTER ./my-lora.gguf').errors).toEqual([
+      "Line 2: ADAPTER must name a blob already on the server (sha256-…); adapter files can't be uploaded from the browser.",
+    ]);
+  });
+});
+
+describe('toCreateRequest', () => {
+  it('maps instructions to the structured /api/create fields and keeps the Modelfile', () => {
+    const request = toCreateRequest('pirate', MODELFILE, parseModelfile(MODELFILE));
+    expect(request).toEqual({
+      model: 'pirate',
+      name: 'pirate',
+      modelfile: MODELFILE,
+      stream: true,
+      from: 'llama3.2:latest',
+      system: 'You are a pirate.\nAnswer in pirate speak.',
+      license: 'MIT',
+      parameters: { temperature: 0.7, stop: ['<|eot_id|>', '<|start_header_id|>'], num_ctx: 8192 },
+      messages: [
+        { role: 'user', content: 'Ahoy?' },
+        { role: 'assistant', content: 'Arr, matey.' },
+      ],
+    });
+  });
+
+  it('sends adapters by digest and the REQUIRES version', () => {
+    const text = `FROM llama3\nADAPTER /usr/share/ollama/.ollama/models/blobs/sha256-${DIGEST}\nREQUIRES 0.6.0`;
+    const request = toCreateRequest('tuned', text, parseModelfile(text));
+    expect(request.adapters).toEqual({ [`adapter-${DIGEST.slice(0, 12)}.gguf`]: `sha256:${DIGEST}` });
+    expect(request.requires).toBe('0.6.0');
+  });
+});
+
+describe('withBaseModel', () => {
+  it('replaces the first FROM line, or adds one', () => {
+    expect(withBaseModel('FROM /blobs/sha256-x\nSYSTEM hi', 'llama3')).toBe('FROM llama3\nSYSTEM hi');
+    expect(withBaseModel('SYSTEM hi', 'llama3')).toBe('FROM llama3\nSYSTEM hi');
+  });
+});
+
+describe('highlightModelfile', () => {
+  const kinds = (text: string) => highlightModelfile(text).map(line => line.map(token => `${token.kind}:${token.text}`));
+
+  it('marks comments, instructions, parameter keys and strings', () => {
+    expect(kinds('# note\nPARAMETER stop "<|eot_id|>"\nMESSAGE user hi')).toEqual([
+      ['comment:# note'],
+      ['instruction:PARAMETER', 'text: ', 'parameter:stop', 'text: ', 'string:"<|eot_id|>"'],
+      ['instruction:MESSAGE', 'text: ', 'parameter:user', 'text: hi'],
+    ]);
+  });
+
+  it('carries a triple-quoted string across lines', () => {
+    expect(kinds('SYSTEM """one\ntwo\nthree""" \nFROM x')).toEqual([
+      ['instruction:SYSTEM', 'text: ', 'string:"""one'],
+      ['string:two'],
+      ['string:three"""', 'text: '],
+      ['instruction:FROM', 'text: x'],
+    ]);
+  });
+
+  it('flags unknown instructions', () => {
+    expect(kinds('SYSTM hi')).toEqual([['error:SYSTM', 'text: hi']]);
+  });
+});
@@ -0,0 +1,224 @@
+const INSTRUCTIONS = ['FROM', 'PARAMETER', 'TEMPLATE', 'SYSTEM', 'ADAPTER', 'LICENSE', 'MESSAGE', 'REQUIRES'];
+
+const TRIPLE_QUOTE = '"""';
+// /api/show lists an adapter as its blob path on the server, e.g. `.../blobs/sha256-<hex>`.
+const BLOB_DIGEST = /sha256[-:]([0-9a-f]{64})/i;
+
+export interface ModelfileInstruction {
+  name: string; // upper-cased
+  value: string; // quotes removed
+  line: number; // 1-based
+}
+
+export interface ParsedModelfile {
+  instructions: ModelfileInstruction[];
+  errors: string[];
+}
+
+export type ModelfileTokenKind = 'comment' | 'instruction' | 'parameter' | 'string' | 'text' | 'error';
+
+export interface ModelfileToken {
+  kind: ModelfileTokenKind;
+  text: string;
+}
+
+const unquote = (value: string): string =>
+  value.length >= 2 && value.startsWith('"') && value.endsWith('"') ? value.slice(1, -1) : value;
+
+/**
+ * Splits a Modelfile into instructions. Values may be bare, "quoted", or
+ * """triple-quoted""" across several lines. Unknown instructions and
+ * unterminated triple quotes are reported in `errors`.
+ */
+export function parseModelfile(text: string): ParsedModelfile {
+  const lines = text.split('\n');
+  const instructions: ModelfileInstruction[] = [];
+  const errors: string[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (!line || line.startsWith('#')) continue;
+
+    const match = line.match(/^(\S+)\s*(.*)$/);
+    if (!match) continue;
+    const name = match[1].toUpperCase();
+    let value = match[2];
+    const lineNumber = i + 1;
+
+    if (!INSTRUCTIONS.includes(name)) {
+      errors.push(`Line ${lineNumber}: unknown instruction "${match[1]}".`);
+      continue;
+    }
+
+    // PARAMETER and MESSAGE put the quoted part after a key, e.g. `MESSAGE user """..."""`.
+    const quoteStart = value.indexOf(TRIPLE_QUOTE);
+    if (quoteStart !== -1) {
+      const prefix = value.slice(0, quoteStart);
+      let body = value.slice(quoteStart + TRIPLE_QUOTE.length);
+      let end = body.indexOf(TRIPLE_QUOTE);
+      while (end === -1 && i + 1 < lines.length) {
+        i++;
+        body += `\n${lines[i]}`;
+        end = body.indexOf(TRIPLE_QUOTE);
+      }
+      if (end === -1) {
+        errors.push(`Line ${lineNumber}: ${name} opens """ but never closes it.`);
+        continue;
+      }
+      value = prefix + body.slice(0, end);
+    } else {
+      value = name === 'PARAMETER' || name === 'MESSAGE' ? value : unquote(value.trim());
+    }
+
+    if (name === 'FROM' && !value.trim()) {
+      errors.push(`Line ${lineNumber}: FROM needs a model name.`);
+    }
+    if (name === 'ADAPTER' && !BLOB_DIGEST.test(value)) {
+      errors.push(`Line ${lineNumber}: ADAPTER must name a blob already on the server (sha256-…); adapter files can't be uploaded from the browser.`);
+    }
+    instructions.push({ name, value, line: lineNumber });
+  }
+
+  if (!instructions.some(instruction => instruction.name === 'FROM')) {
+    errors.push('A Modelfile needs a FROM line.');
+  }
+  return { instructions, errors };
+}
+
+/**
+ * Points the FROM line at `modelName`. `/api/show` returns FROM as a blob path
+ * on the server, which can't be sent back to /api/create.
+ */
+export function withBaseModel(modelfile: string, modelName: string): string {
+  let replaced = false;
+  const lines = modelfile.split('\n').map(line => {
+    if (!replaced && /^\s*FROM\s/i.test(line)) {
+      replaced = true;
+      return `FROM ${modelName}`;
+    }
+    return line;
+  });
+  return replaced ? lines.join('\n') : `FROM ${modelName}\n${modelfile}`;
+}
+
+const parseParameterValue = (raw: string): string | number | boolean => {
+  const value = unquote(raw.trim());
+  if (value === 'true' || value === 'false') return value === 'true';
+  const num = Number(value);
+  return value !== '' && !Number.isNaN(num) && raw.trim() === value ? num : value;
+};
+
+/**
+ * Request body for /api/create. Newer Ollama versions take the instructions as
+ * separate fields; older ones only read `modelfile`. Both are sent, and each
+ * version ignores the fields it doesn't know.
+ */
+export function toCreateRequest(model: string, modelfile: string, { instructions }: ParsedModelfile): Record<string, unknown> {
+  const request: Record<string, unknown> = { model, name: model, modelfile, stream: true };
+  const parameters: Record<string, unknown> = {};
+  const messages: { role: string; content: string }[] = [];
+  // File name to digest. Adapter blobs from /api/show are stored as GGUF.
+  const adapters: Record<string, string> = {};
+
+  for (const { name, value } of instructions) {
+    switch (name) {
+      case 'FROM':
+        request.from = value.trim();
+        break;
+      case 'SYSTEM':
+        request.system = value;
+        break;
+      case 'TEMPLATE':
+        request.template = value;
+        break;
+      case 'LICENSE':
+        request.license = value;
+        break;
+      case 'REQUIRES':
+        request.requires = value.trim();
+        break;
+      case 'ADAPTER': {
+        const digest = value.match(BLOB_DIGEST)?.[1]?.toLowerCase();
+        if (digest) adapters[`adapter-${digest.slice(0, 12)}.gguf`] = `sha256:${digest}`;
+        break;
+      }
+      case 'PARAMETER': {
+        const [, key, raw = ''] = value.trim().match(/^(\S+)\s*([\s\S]*)$/) ?? [];
+        if (!key) break;
+        // `stop` is the one parameter that may repeat.
+        if (key === 'stop') {
+          parameters.stop = [...((parameters.stop as string[] | undefined) ?? []), unquote(raw.trim())];
+        } else {
+          parameters[key] = parseParameterValue(raw);
+        }
+        break;
+      }
+      case 'MESSAGE': {
+        const [, role, content = ''] = value.trim().match(/^(\S+)\s*([\s\S]*)$/) ?? [];
+        if (role) messages.push({ role, content: unquote(content.trim()) });
+        break;
+      }
+    }
+  }
+
+  if (Object.keys(parameters).length > 0) request.parameters = parameters;
+  if (messages.length > 0) request.messages = messages;
+  if (Object.keys(adapters).length > 0) request.adapters = adapters;
+  return request;
+}
+
+/** Line-by-line tokens for syntax highlighting; one array per input line. */
+export function highlightModelfile(text: string): ModelfileToken[][] {
+  let inTripleQuote = false;
+
+  return text.split('\n').map(line => {
+    if (inTripleQuote) {
+      const end = line.indexOf(TRIPLE_QUOTE);
+      if (end === -1) return [{ kind: 'string', text: line }];
+      inTripleQuote = false;
+      const rest = line.slice(end + TRIPLE_QUOTE.length);
+      return [{ kind: 'string', text: line.slice(0, end + TRIPLE_QUOTE.length) }, ...(rest ? [{ kind: 'text' as const, text: rest }] : [])];
+    }
+
+    if (/^\s*#/.test(line)) return [{ kind: 'comment', text: line }];
+    const match = line.match(/^(\s*)(\S+)(.*)$/);
+    if (!match) return [{ kind: 'text', text: line }];
+
+    const [, indent, word, rest] = match;
+    const tokens: ModelfileToken[] = [];
+    if (indent) tokens.push({ kind: 'text', text: indent });
+    const upper = word.toUpperCase();
+    tokens.push({ kind: INSTRUCTIONS.includes(upper) ? 'instruction' : 'error', text: word });
+
+    let remainder = rest;
+    if (upper === 'PARAMETER' || upper === 'MESSAGE') {
+      const key = remainder.match(/^(\s+)(\S+)/);
+      if (key) {
+        tokens.push({ kind: 'text', text: key[1] }, { kind: 'parameter', text: key[2] });
+        remainder = remainder.slice(key[0].length);
+      }
+    }
+
+    const quoteStart = remainder.indexOf('"');
+    if (quoteStart === -1) {
+      if (remainder) tokens.push({ kind: 'text', text: remainder });
+      return tokens;
+    }
+    if (quoteStart > 0) tokens.push({ kind: 'text', text: remainder.slice(0, quoteStart) });
+    const quoted = remainder.slice(quoteStart);
+    if (quoted.startsWith(TRIPLE_QUOTE)) {
+      const close = quoted.indexOf(TRIPLE_QUOTE, TRIPLE_QUOTE.length);
+      if (close === -1) {
+        inTripleQuote = true;
+        tokens.push({ kind: 'string', text: quoted });
+        return tokens;
+      }
+      tokens.push({ kind: 'string', text: quoted.slice(0, close + TRIPLE_QUOTE.length) });
+      const after = quoted.slice(close + TRIPLE_QUOTE.length);
+      if (after) tokens.push({ kind: 'text', text: after });
+      return tokens;
+    }
+    tokens.push({ kind: 'string', text: quoted });
+    return tokens;
+  });
+}
@@ -0,0 +1,62 @@
+import type { AssistantProfile } from '../types';
+import { createId } from './id';
+import { isRecord } from './guards';
+import { sanitizeOptions } from './modelParameters';
+
+const EXPORT_VERSION = 1;
+
+interface ProfilesExport {
+  version: number;
+  profiles: Omit<AssistantProfile, 'id'>[];
+}
+
+export function serializeProfiles(profiles: AssistantProfile[]): string {
+  const data: ProfilesExport = {
+    version: EXPORT_VERSION,
+    profiles: profiles.map(({ name, model, systemPrompt, options }) => ({ name, model, systemPrompt, options })),
+  };
+  return JSON.stringify(data, null, 2);
+}
+
+/**
+ * Parses a profiles file. Accepts our export format, a bare array of profiles,
+ * or a single profile object. Throws if nothing usable is found.
+ */
+export function parseProfiles(json: string): AssistantProfile[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('File is not valid JSON.');
+  }
+
+  const entries: unknown[] = Array.isArray(data)
+    ? data
+    : isRecord(data) && Array.isArray(data.profiles)
+      ? data.profiles
+      : [data];
+
+  const profiles = entries.flatMap((entry): AssistantProfile[] => {
+    if (!isRecord(entry) || typeof entry.name !== 'string' || !entry.name.trim()) {
+      return [];
+    }
+    return [{
+      id: createId(),
+      name: entry.name.trim(),
+      model: typeof entry.model === 'string' ? entry.model : '',
+      systemPrompt: typeof entry.systemPrompt === 'string' ? entry.systemPrompt : '',
+      options: sanitizeOptions(entry.options),
+    }];
+  });
+
+  if (profiles.length === 0) {
+    throw new Error('No valid profiles found in file.');
+  }
+  return profiles;
+}
+
+/** Merges imported profiles into the existing list, replacing any with the same name. */
+export function mergeProfiles(existing: AssistantProfile[], imported: AssistantProfile[]): AssistantProfile[] {
+  const importedNames = new Set(imported.map(p => p.name));
+  return [...existing.filter(p => !importedNames.has(p.name)), ...imported];
+}
@@ -0,0 +1,41 @@
+import type { OllamaResponseStats, ResponseStats } from '../types';
+
+const NS_PER_MS = 1e6;
+
+// Ollama reports a few milliseconds of load_duration even for a model that is
+// already in memory; anything past this means the weights were loaded from disk.
+const COLD_LOAD_THRESHOLD_MS = 500;
+
+export interface StatsSummary {
+  tokensPerSecond?: number;
+  timeToFirstTokenMs?: number;
+  loadMs?: number;
+  loadedCold: boolean;
+  promptTokens?: number;
+  outputTokens?: number;
+  totalMs?: number;
+}
+
+export function summarizeStats(stats: ResponseStats): StatsSummary {
+  const loadMs = stats.load_duration !== undefined ? stats.load_duration / NS_PER_MS : undefined;
+  // Without a browser measurement, load + prompt evaluation is the server-side equivalent.
+  const serverTtftMs = stats.prompt_eval_duration !== undefined
+    ? (stats.load_duration ?? 0) / NS_PER_MS + stats.prompt_eval_duration / NS_PER_MS
+    : undefined;
+  return {
+    tokensPerSecond: tokensPerSecond(stats),
+    timeToFirstTokenMs: stats.time_to_first_token_ms ?? serverTtftMs,
+    loadMs,
+    loadedCold: loadMs !== undefined && loadMs > COLD_LOAD_THRESHOLD_MS,
+    promptTokens: stats.prompt_eval_count,
+    outputTokens: stats.eval_count,
+    totalMs: stats.total_duration !== undefined ? stats.total_duration / NS_PER_MS : undefined,
+  };
+}
+
+export function tokensPerSecond(stats: OllamaResponseStats): number | undefined {
+  if (!stats.eval_count || !stats.eval_duration) return undefined;
+  return stats.eval_count / (stats.eval_duration / 1e9);
+}
+
+export const formatSeconds = (ms: number) => `${(ms / 1000).toFixed(2)}s`;
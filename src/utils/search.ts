@@ -0,0 +1,119 @@
+import type { ChatMessage, Conversation } from '../types';
+
+export interface SearchFilters {
+  model?: string;
+  role?: ChatMessage['role'];
+  from?: number; // epoch ms, inclusive
+  to?: number; // epoch ms, inclusive
+}
+
+export interface SearchIndexEntry {
+  conversationId: string;
+  conversationTitle: string;
+  messageId: string;
+  role: ChatMessage['role'];
+  model: string;
+  timestamp: number;
+  text: string;
+  normalized: string;
+}
+
+export interface SearchResult {
+  entry: SearchIndexEntry;
+  score: number;
+  snippet: string;
+}
+
+const SNIPPET_RADIUS = 60;
+
+const normalize = (text: string) => text.toLowerCase();
+
+export const tokenize = (query: string): string[] =>
+  normalize(query).split(/\s+/).filter(term => term.length > 0);
+
+// Conversations are replaced rather than mutated on every change, so an entry
+// list stays valid for as long as its conversation object is alive.
+const entryCache = new WeakMap<Conversation, SearchIndexEntry[]>();
+
+const indexConversation = (conversation: Conversation): SearchIndexEntry[] =>
+  Object.values(conversation.nodes).map(({ id, message }) => ({
+    conversationId: conversation.id,
+    conversationTitle: conversation.title,
+    messageId: id,
+    role: message.role,
+    model: message.model ?? conversation.model,
+    timestamp: message.createdAt ?? conversation.updatedAt,
+    text: message.content,
+    normalized: normalize(message.content),
+  }));
+
+/**
+ * Flattens every message into a lowercase entry so searches don't re-walk
+ * conversations. Inactive branches are included too. Only conversations that
+ * changed since the last call are walked again.
+ */
+export function buildSearchIndex(conversations: Conversation[]): SearchIndexEntry[] {
+  return conversations.flatMap(conversation => {
+    let entries = entryCache.get(conversation);
+    if (!entries) {
+      entries = indexConversation(conversation);
+      entryCache.set(conversation, entries);
+    }
+    return entries;
+  });
+}
+
+const countOccurrences = (haystack: string, needle: string) => {
+  let count = 0;
+  let index = haystack.indexOf(needle);
+  while (index !== -1) {
+    count++;
+    index = haystack.indexOf(needle, index + needle.length);
+  }
+  return count;
+};
+
+function makeSnippet(entry: SearchIndexEntry, terms: string[]): string {
+  const firstHit = Math.min(...terms.map(term => entry.normalized.indexOf(term)).filter(i => i !== -1));
+  const start = Math.max(0, firstHit - SNIPPET_RADIUS);
+  const end = Math.min(entry.text.length, firstHit + SNIPPET_RADIUS * 2);
+  const snippet = entry.text.slice(start, end).replace(/\s+/g, ' ').trim();
+  return `${start > 0 ? '…' : ''}${snippet}${end < entry.text.length ? '…' : ''}`;
+}
+
+/**
+ * Returns messages containing every query term, best matches first. Exact
+ * phrase matches and repeated terms rank higher; ties go to the newest message.
+ */
+export function searchIndex(index: SearchIndexEntry[], query: string, filters: SearchFilters = {}): SearchResult[] {
+  const terms = tokenize(query);
+  if (terms.length === 0) return [];
+  const phrase = normalize(query.trim());
+
+  const results: SearchResult[] = [];
+  for (const entry of index) {
+    if (filters.model && entry.model !== filters.model) continue;
+    if (filters.role && entry.role !== filters.role) continue;
+    if (filters.from !== undefined && entry.timestamp < filters.from) continue;
+    if (filters.to !== undefined && entry.timestamp > filters.to) continue;
+
+    let score = 0;
+    let matchesAll = true;
+    for (const term of terms) {
+      const count = countOccurrences(entry.normalized, term);
+      if (count === 0) {
+        matchesAll = false;
+        break;
+      }
+      score += 1 + Math.log(count);
+    }
+    if (!matchesAll) continue;
+    if (terms.length > 1 && entry.normalized.includes(phrase)) {
+      score += terms.length;
+    }
+
+    results.push({ entry, score, snippet: makeSnippet(entry, terms) });
+  }
+
+  return results.sort((a, b) => b.score - a.score || b.entry.timestamp - a.entry.timestamp);
+}
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import type { JsonSchema } from '../types';
+import { normalizeToolArguments, validateToolArguments } from './toolCalls';
+
+const schema: JsonSchema = {
+  type: 'object',
+  properties: {
+    expression: { type: 'string' },
+    precision: { type: 'integer' },
+    unit: { type: 'string', enum: ['c', 'f'] },
+  },
+  required: ['expression'],
+};
+
+describe('validateToolArguments', () => {
+  it('accepts arguments that match the schema, and ignores extra ones', () => {
+    expect(validateToolArguments(schema, { expression: '1+1', precision: 2, unit: 'c', extra: true })).toBeNull();
+  });
+
+  it('reports missing required arguments', () => {
+    expect(validateToolArguments(schema, {})).toBe('Missing required argument: expression.');
+    expect(validateToolArguments({ ...schema, required: ['expression', 'unit'] }, {})).toBe('Missing required arguments: expression, unit.');
+  });
+
+  it('reports wrong types and values outside the enum', () => {
+    expect(validateToolArguments(schema, { expression: 1 })).toBe('Argument "expression" must be of type string.');
+    expect(validateToolArguments(schema, { expression: 'x', precision: 1.5 })).toBe('Argument "precision" must be of type integer.');
+    expect(validateToolArguments(schema, { expression: 'x', unit: 'k' })).toBe('Argument "unit" must be one of: c, f.');
+  });
+});
+
+describe('normalizeToolArguments', () => {
+  it('keeps objects and parses JSON strings', () => {
+    expect(normalizeToolArguments({ a: 1 })).toEqual({ a: 1 });
+    expect(normalizeToolArguments('{"a":1}')).toEqual({ a: 1 });
+  });
+
+  it.each([undefined, null, 'not json', '[1,2]', '"text"', 42])('turns %j into an empty object', (args) => {
+    expect(normalizeToolArguments(args)).toEqual({});
+  });
+});
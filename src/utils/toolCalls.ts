@@ -0,0 +1,64 @@
+import type { JsonSchema, ToolCallRecord, ToolRound } from '../types';
+import { isRecord } from './guards';
+
+const matchesType = (value: unknown, type: JsonSchema['type']): boolean => {
+  switch (type) {
+    case 'string': return typeof value === 'string';
+    case 'number': return typeof value === 'number' && Number.isFinite(value);
+    case 'integer': return Number.isInteger(value);
+    case 'boolean': return typeof value === 'boolean';
+    case 'array': return Array.isArray(value);
+    case 'object': return isRecord(value);
+    default: return true;
+  }
+};
+
+/**
+ * Checks tool arguments against the top level of the tool's schema: required
+ * properties, types and enums. Returns a message for the model, or null.
+ */
+export function validateToolArguments(schema: JsonSchema, args: Record<string, unknown>): string | null {
+  const missing = (schema.required ?? []).filter(key => args[key] === undefined);
+  if (missing.length > 0) return `Missing required argument${missing.length === 1 ? '' : 's'}: ${missing.join(', ')}.`;
+
+  for (const [key, value] of Object.entries(args)) {
+    const property = schema.properties?.[key];
+    if (!property) continue;
+    if (!matchesType(value, property.type)) return `Argument "${key}" must be of type ${property.type}.`;
+    if (property.enum && !property.enum.includes(value as string | number)) {
+      return `Argument "${key}" must be one of: ${property.enum.join(', ')}.`;
+    }
+  }
+  return null;
+}
+
+// Small models sometimes send the arguments as a JSON string instead of an object.
+export function normalizeToolArguments(args: unknown): Record<string, unknown> {
+  if (isRecord(args)) return args;
+  if (typeof args === 'string') {
+    try {
+      const parsed: unknown = JSON.parse(args);
+      if (isRecord(parsed)) return parsed;
+    } catch {
+      // fall through
+    }
+  }
+  return {};
+}
+
+export const updateToolCall = (rounds: ToolRound[], id: string, patch: Partial<ToolCallRecord>): ToolRound[] =>
+  rounds.map(round => ({
+    ...round,
+    calls: round.calls.map(call => (call.id === id ? { ...call, ...patch } : call)),
+  }));
+
+// Calls left waiting or running when the loop stops are marked as cancelled.
+export const cancelOpenToolCalls = (rounds: ToolRound[]): ToolRound[] =>
+  rounds.map(round => ({
+    ...round,
+    calls: round.calls.map(call =>
+      call.status === 'awaiting-approval' || call.status === 'running'
+        ? { ...call, status: 'cancelled', result: 'The user stopped the generation before this tool ran.' }
+        : call
+    ),
+  }));
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { convertUnits } from './unitConversion';
+
+describe('convertUnits', () => {
+  it.each([
+    [1, 'mi', 'km', 1.609344],
+    [12, 'inches', 'Feet', 1],
+    [1, 'kg', 'lbs', 2.20462262],
+    [1, 'gal', 'l', 3.785411784],
+    [100, 'km/h', 'mph', 62.1371192],
+    [1, 'acre', 'm2', 4046.8564224],
+  ])('converts %d %s to %s', (value, from, to, expected) => {
+    expect(convertUnits(value, from, to)).toBeCloseTo(expected, 6);
+  });
+
+  it.each([
+    [100, 'C', 'F', 212],
+    [32, 'fahrenheit', 'celsius', 0],
+    [0, 'K', '°C', -273.15],
+    [-40, 'f', 'c', -40],
+  ])('converts %d %s to %s', (value, from, to, expected) => {
+    expect(convertUnits(value, from, to)).toBeCloseTo(expected, 6);
+  });
+
+  it('reports unknown and mismatched units', () => {
+    expect(() => convertUnits(1, 'parsec', 'km')).toThrow('Unknown unit "parsec".');
+    expect(() => convertUnits(1, 'km', 'kg')).toThrow("Can't convert km to kg: they measure different things.");
+    expect(() => convertUnits(1, 'c', 'kg')).toThrow("Can't convert c to kg.");
+  });
+
+  it.each(['constructor', 'toString', '__proto__', 'valueOf'])(
+    'does not treat the Object.prototype member %s as a unit',
+    (unit) => {
+      expect(() => convertUnits(1, unit, 'm')).toThrow(`Unknown unit "${unit}".`);
+      expect(() => convertUnits(1, 'c', unit)).toThrow(`Can't convert c to ${unit}.`);
+    }
+  );
+});
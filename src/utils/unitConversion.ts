@@ -0,0 +1,72 @@
+// Factors to the base unit of each dimension (metre, kilogram, litre, metre per second, square metre).
+const LINEAR_UNITS: Record<string, Record<string, number>> = {
+  length: {
+    mm: 0.001, cm: 0.01, m: 1, km: 1000,
+    in: 0.0254, ft: 0.3048, yd: 0.9144, mi: 1609.344, nmi: 1852,
+  },
+  mass: {
+    mg: 1e-6, g: 0.001, kg: 1, t: 1000,
+    oz: 0.028349523125, lb: 0.45359237, st: 6.35029318,
+  },
+  volume: {
+    ml: 0.001, l: 1, m3: 1000,
+    tsp: 0.00492892159375, tbsp: 0.01478676478125, floz: 0.0295735295625, cup: 0.2365882365, pt: 0.473176473, qt: 0.946352946, gal: 3.785411784,
+  },
+  speed: {
+    'm/s': 1, 'km/h': 1 / 3.6, mph: 0.44704, kn: 0.514444,
+  },
+  area: {
+    m2: 1, km2: 1e6, ha: 1e4, ft2: 0.09290304, acre: 4046.8564224,
+  },
+};
+
+// Temperatures are affine, so they convert through Celsius instead of a factor.
+const TEMPERATURE_UNITS: Record<string, { toC: (v: number) => number; fromC: (v: number) => number }> = {
+  c: { toC: v => v, fromC: v => v },
+  f: { toC: v => ((v - 32) * 5) / 9, fromC: v => (v * 9) / 5 + 32 },
+  k: { toC: v => v - 273.15, fromC: v => v + 273.15 },
+};
+
+const ALIASES: Record<string, string> = {
+  meter: 'm', meters: 'm', metre: 'm', metres: 'm', kilometer: 'km', kilometers: 'km', centimeter: 'cm', centimeters: 'cm', millimeter: 'mm', millimeters: 'mm',
+  inch: 'in', inches: 'in', foot: 'ft', feet: 'ft', yard: 'yd', yards: 'yd', mile: 'mi', miles: 'mi',
+  gram: 'g', grams: 'g', kilogram: 'kg', kilograms: 'kg', kilo: 'kg', kilos: 'kg', tonne: 't', tonnes: 't', ounce: 'oz', ounces: 'oz', pound: 'lb', pounds: 'lb', lbs: 'lb', stone: 'st',
+  liter: 'l', liters: 'l', litre: 'l', litres: 'l', milliliter: 'ml', milliliters: 'ml', gallon: 'gal', gallons: 'gal', cups: 'cup', pint: 'pt', pints: 'pt', quart: 'qt', quarts: 'qt',
+  kph: 'km/h', kmh: 'km/h', knots: 'kn', knot: 'kn',
+  hectare: 'ha', hectares: 'ha', acres: 'acre',
+  celsius: 'c', '°c': 'c', fahrenheit: 'f', '°f': 'f', kelvin: 'k',
+};
+
+// `in` and plain indexing would also find Object.prototype members such as "constructor".
+const has = (table: object, unit: string): boolean => Object.prototype.hasOwnProperty.call(table, unit);
+
+const normalizeUnit = (unit: string): string => {
+  const lower = unit.trim().toLowerCase();
+  return has(ALIASES, lower) ? ALIASES[lower] : lower;
+};
+
+export const SUPPORTED_UNITS = [...Object.values(LINEAR_UNITS).flatMap(units => Object.keys(units)), ...Object.keys(TEMPERATURE_UNITS).map(u => u.toUpperCase())];
+
+/** Converts between units of the same dimension. Throws for unknown or mismatched units. */
+export function convertUnits(value: number, from: string, to: string): number {
+  const source = normalizeUnit(from);
+  const target = normalizeUnit(to);
+
+  const isTemperature = (unit: string) => has(TEMPERATURE_UNITS, unit);
+  if (isTemperature(source) || isTemperature(target)) {
+    if (!(isTemperature(source) && isTemperature(target))) {
+      throw new Error(`Can't convert ${from} to ${to}.`);
+    }
+    return TEMPERATURE_UNITS[target].fromC(TEMPERATURE_UNITS[source].toC(value));
+  }
+
+  for (const units of Object.values(LINEAR_UNITS)) {
+    if (has(units, source) && has(units, target)) {
+      return (value * units[source]) / units[target];
+    }
+  }
+  const known = (unit: string) => isTemperature(unit) || Object.values(LINEAR_UNITS).some(units => has(units, unit));
+  if (!known(source)) throw new Error(`Unknown unit "${from}".`);
+  if (!known(target)) throw new Error(`Unknown unit "${to}".`);
+  throw new Error(`Can't convert ${from} to ${to}: they measure different things.`);
+}